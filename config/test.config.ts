@@ -30,6 +30,107 @@ export interface TestConfig {
         dir: string;
         level: 'error' | 'warn' | 'info' | 'debug';
     };
+    accessibility: {
+        axeVersion: string;
+        axeSourcePath?: string;
+    };
+    visual: {
+        snapshotDir: string;
+        outputDir: string;
+        updateSnapshots: 'none' | 'missing' | 'all';
+        threshold: number;
+        maxDiffPixels: number;
+        baselineNamespaces: string[];
+        stabilize: {
+            freezeTime: boolean | string;
+            waitForFonts: boolean;
+            hideCaret: boolean;
+            waitForLayout: boolean;
+            replaceText: Record<string, string>;
+        };
+    };
+    performance: {
+        historyDir: string;
+        baselineWindow: number;
+        baselineStatistic: 'median' | 'p75';
+        minBaselineRuns: number;
+        regressionThreshold: number;
+        regressionAction: 'fail' | 'warn';
+    };
+    har: {
+        dir: string;
+        outputDir: string;
+        recordOnFailure: boolean;
+        replayNotFound: 'abort' | 'fallback';
+        urlFilter?: string;
+    };
+    mocks: {
+        dir: string;
+    };
+    api: {
+        schemaDir: string;
+        openApiSpec: string;
+        contractAction: 'fail' | 'warn' | 'off';
+        contractUi: boolean;
+        contractReportDir: string;
+        correlationHeader: string;
+        retry: {
+            maxAttempts: number;
+            baseDelay: number;
+            maxDelay: number;
+            jitter: number;
+            statuses: number[];
+            networkErrors: string[];
+            idempotentOnly: boolean;
+            maxRetryAfter: number;
+        };
+    };
+    auth: {
+        provider: 'none' | 'bearer' | 'basic' | 'api-key' | 'oauth2-client' | 'oauth2-password' | 'session';
+        bearerToken?: string;
+        basic: { username?: string; password?: string };
+        apiKey: { name: string; value?: string; in: 'header' | 'query' };
+        oauth2: {
+            tokenUrl?: string;
+            clientId?: string;
+            clientSecret?: string;
+            scope?: string;
+            username?: string;
+            password?: string;
+        };
+        session: {
+            loginUrl?: string;
+            username?: string;
+            password?: string;
+            usernameField: string;
+            passwordField: string;
+            format: 'json' | 'form';
+        };
+        shareBrowserSession: boolean;
+        storageStateDir: string;
+    };
+    mockServer: {
+        mode: 'always' | 'tag' | 'off';
+        fixturesDir: string;
+        port: number;
+    };
+    network: {
+        captureBodies: boolean;
+        maxBodySize: number;
+        bodyContentTypes: string[];
+        attachOnFailure: boolean;
+    };
+    chaos: {
+        seed?: string;
+        faults: Array<'error' | 'abort' | 'timeout' | 'truncate' | 'latency'>;
+        latency: number;
+        timeout: number;
+        targets: Record<string, string>;
+    };
+    testData: {
+        endpoints: Record<string, string>;
+        keep: boolean;
+    };
 }
 
 // Load environment-specific config
@@ -37,6 +138,13 @@ function getEnvironment(): string {
     return process.env.TEST_ENV || process.env.NODE_ENV || 'dev';
 }
 
+// VISUAL_FREEZE_TIME accepts true/false or an ISO timestamp to freeze at
+function parseFreezeTime(value?: string): boolean | string {
+    if (!value || value === 'false') return false;
+    if (value === 'true') return true;
+    return value;
+}
+
 // Base configuration
 const baseConfig: TestConfig = {
     baseURL: process.env.BASE_URL || 'https://www.saucedemo.com/',
@@ -67,6 +175,146 @@ const baseConfig: TestConfig = {
     logs: {
         dir: 'logs',
         level: (process.env.LOG_LEVEL as any) || 'info'
+    },
+    accessibility: {
+        axeVersion: process.env.AXE_VERSION || '4.7.2',
+        axeSourcePath: process.env.AXE_SOURCE_PATH
+    },
+    visual: {
+        snapshotDir: process.env.VISUAL_SNAPSHOT_DIR || 'test-results/screenshots/snapshots',
+        outputDir: process.env.VISUAL_OUTPUT_DIR || 'test-results/visual',
+        // CI never writes its own baselines: a missing one fails until it is approved
+        updateSnapshots: (process.env.VISUAL_UPDATE_SNAPSHOTS as any) || (process.env.CI ? 'none' : 'missing'),
+        threshold: parseFloat(process.env.VISUAL_THRESHOLD || '0.2'),
+        maxDiffPixels: parseInt(process.env.VISUAL_MAX_DIFF_PIXELS || '100'),
+        // Most specific first; the first pattern is where new baselines are written
+        baselineNamespaces: (process.env.VISUAL_BASELINE_NAMESPACES ||
+            '{browser}/{platform}/{device}/{viewport},{browser}/{platform}/{viewport},{browser}/{viewport}')
+            .split(',')
+            .map(pattern => pattern.trim()),
+        stabilize: {
+            freezeTime: parseFreezeTime(process.env.VISUAL_FREEZE_TIME),
+            waitForFonts: process.env.VISUAL_WAIT_FOR_FONTS !== 'false',
+            hideCaret: process.env.VISUAL_HIDE_CARET !== 'false',
+            waitForLayout: process.env.VISUAL_WAIT_FOR_LAYOUT !== 'false',
+            replaceText: JSON.parse(process.env.VISUAL_REPLACE_TEXT || '{}')
+        }
+    },
+    performance: {
+        historyDir: process.env.PERF_HISTORY_DIR || 'test-results/performance-history',
+        baselineWindow: parseInt(process.env.PERF_BASELINE_WINDOW || '10'),
+        baselineStatistic: (process.env.PERF_BASELINE_STATISTIC as any) || 'median',
+        minBaselineRuns: parseInt(process.env.PERF_MIN_BASELINE_RUNS || '3'),
+        // Percent above the baseline at which a metric counts as regressed
+        regressionThreshold: parseFloat(process.env.PERF_REGRESSION_THRESHOLD || '20'),
+        regressionAction: (process.env.PERF_REGRESSION_ACTION as any) || 'warn'
+    },
+    har: {
+        // Named HARs recorded with @record-har:<name> and replayed with @replay-har:<name>
+        dir: process.env.HAR_DIR || 'tests/fixtures/har',
+        outputDir: process.env.HAR_OUTPUT_DIR || 'test-results/har',
+        // Opt-in full recording; failures get a HAR from the network log either way
+        recordOnFailure: process.env.HAR_ON_FAILURE === 'true',
+        replayNotFound: (process.env.HAR_REPLAY_NOT_FOUND as any) || 'fallback',
+        urlFilter: process.env.HAR_URL_FILTER
+    },
+    mocks: {
+        dir: process.env.MOCKS_DIR || 'tests/fixtures/mocks'
+    },
+    api: {
+        // JSON Schema (draft 2020-12) files used by ApiClient.assertSchema
+        schemaDir: process.env.API_SCHEMA_DIR || 'tests/fixtures/schemas',
+        // ApiClient calls are checked against this OpenAPI 3 document when it exists
+        openApiSpec: process.env.API_OPENAPI_SPEC || 'tests/fixtures/openapi.yaml',
+        contractAction: (process.env.API_CONTRACT_ACTION as any) || 'warn',
+        // Also check XHR/fetch traffic captured during UI scenarios
+        contractUi: process.env.API_CONTRACT_UI === 'true',
+        contractReportDir: process.env.API_CONTRACT_REPORT_DIR || 'test-results/contract',
+        // Sent with every ApiClient request and shared by its retries
+        correlationHeader: process.env.API_CORRELATION_HEADER || 'X-Correlation-ID',
+        retry: {
+            // 1 disables retries; RequestOptions.retry overrides per request
+            maxAttempts: parseInt(process.env.API_RETRY_ATTEMPTS || '3'),
+            baseDelay: parseInt(process.env.API_RETRY_BASE_DELAY || '250'),
+            maxDelay: parseInt(process.env.API_RETRY_MAX_DELAY || '5000'),
+            jitter: parseFloat(process.env.API_RETRY_JITTER || '0.5'),
+            statuses: (process.env.API_RETRY_STATUSES || '408,429,502,503,504')
+                .split(',')
+                .map(status => parseInt(status.trim())),
+            networkErrors: (process.env.API_RETRY_NETWORK_ERRORS ||
+                'ECONNRESET,ECONNREFUSED,ETIMEDOUT,EAI_AGAIN,EPIPE,socket hang up,Timeout')
+                .split(',')
+                .map(error => error.trim()),
+            idempotentOnly: process.env.API_RETRY_IDEMPOTENT_ONLY !== 'false',
+            maxRetryAfter: parseInt(process.env.API_RETRY_MAX_RETRY_AFTER || '30000')
+        }
+    },
+    auth: {
+        // Provider used by "I have a valid API authentication token"; defaults target the mock API server
+        provider: (process.env.API_AUTH as any) || 'oauth2-password',
+        bearerToken: process.env.API_BEARER_TOKEN,
+        basic: {
+            username: process.env.API_BASIC_USERNAME,
+            password: process.env.API_BASIC_PASSWORD
+        },
+        apiKey: {
+            name: process.env.API_KEY_NAME || 'X-API-Key',
+            value: process.env.API_KEY,
+            in: (process.env.API_KEY_IN as any) || 'header'
+        },
+        oauth2: {
+            tokenUrl: process.env.OAUTH_TOKEN_URL || '/api/oauth/token',
+            clientId: process.env.OAUTH_CLIENT_ID || 'test-client',
+            clientSecret: process.env.OAUTH_CLIENT_SECRET,
+            scope: process.env.OAUTH_SCOPE,
+            username: process.env.OAUTH_USERNAME || process.env.DEFAULT_USERNAME || 'standard_user',
+            password: process.env.OAUTH_PASSWORD || process.env.DEFAULT_PASSWORD || 'secret_sauce'
+        },
+        session: {
+            loginUrl: process.env.API_SESSION_LOGIN_URL || '/api/session/login',
+            username: process.env.API_SESSION_USERNAME || process.env.DEFAULT_USERNAME || 'standard_user',
+            password: process.env.API_SESSION_PASSWORD || process.env.DEFAULT_PASSWORD || 'secret_sauce',
+            usernameField: process.env.API_SESSION_USERNAME_FIELD || 'username',
+            passwordField: process.env.API_SESSION_PASSWORD_FIELD || 'password',
+            format: (process.env.API_SESSION_FORMAT as any) || 'json'
+        },
+        // ApiClient uses the scenario's browser context, so API and UI logins share cookies
+        shareBrowserSession: process.env.API_SHARE_BROWSER_SESSION !== 'false',
+        // Saved sessions for @auth-state:<name> (they hold live cookies; keep out of git)
+        storageStateDir: process.env.AUTH_STATE_DIR || 'test-results/.auth'
+    },
+    mockServer: {
+        // 'tag' starts the local API server for @mock-server scenarios only
+        mode: (process.env.MOCK_SERVER as any) || 'tag',
+        fixturesDir: process.env.MOCK_SERVER_FIXTURES || 'tests/fixtures/api',
+        // 0 picks a free port
+        port: parseInt(process.env.MOCK_SERVER_PORT || '0')
+    },
+    network: {
+        captureBodies: process.env.NETWORK_CAPTURE_BODIES !== 'false',
+        maxBodySize: parseInt(process.env.NETWORK_MAX_BODY_SIZE || '65536'),
+        bodyContentTypes: (process.env.NETWORK_BODY_CONTENT_TYPES ||
+            'application/json,text/,application/xml,application/x-www-form-urlencoded,+json')
+            .split(',')
+            .map(type => type.trim().toLowerCase()),
+        attachOnFailure: process.env.NETWORK_ATTACH_ON_FAILURE !== 'false'
+    },
+    chaos: {
+        // Unset means a fresh seed per scenario, logged so the run can be replayed
+        seed: process.env.CHAOS_SEED,
+        faults: (process.env.CHAOS_FAULTS || 'error,abort,timeout,truncate,latency')
+            .split(',')
+            .map(fault => fault.trim()) as any,
+        latency: parseInt(process.env.CHAOS_LATENCY || '3000'),
+        timeout: parseInt(process.env.CHAOS_TIMEOUT || '15000'),
+        // Names usable in @chaos:<target>=<probability> tags
+        targets: JSON.parse(process.env.CHAOS_TARGETS || '{"api":"**/api/**","images":"**/static/media/*.jpg","all":"**/*"}')
+    },
+    testData: {
+        // Collection endpoint per resource created through ApiDataFactory
+        endpoints: JSON.parse(process.env.TEST_DATA_ENDPOINTS || '{"user":"/api/users","order":"/api/orders"}'),
+        // Skip teardown to inspect created data after a run
+        keep: process.env.TEST_DATA_KEEP === 'true'
     }
 };
 
@@ -113,7 +361,18 @@ function getConfig(): TestConfig {
         video: { ...baseConfig.video, ...envConfig.video },
         screenshot: { ...baseConfig.screenshot, ...envConfig.screenshot },
         trace: { ...baseConfig.trace, ...envConfig.trace },
-        logs: { ...baseConfig.logs, ...envConfig.logs }
+        logs: { ...baseConfig.logs, ...envConfig.logs },
+        accessibility: { ...baseConfig.accessibility, ...envConfig.accessibility },
+        visual: { ...baseConfig.visual, ...envConfig.visual },
+        performance: { ...baseConfig.performance, ...envConfig.performance },
+        har: { ...baseConfig.har, ...envConfig.har },
+        mocks: { ...baseConfig.mocks, ...envConfig.mocks },
+        api: { ...baseConfig.api, ...envConfig.api },
+        auth: { ...baseConfig.auth, ...envConfig.auth },
+        mockServer: { ...baseConfig.mockServer, ...envConfig.mockServer },
+        network: { ...baseConfig.network, ...envConfig.network },
+        chaos: { ...baseConfig.chaos, ...envConfig.chaos },
+        testData: { ...baseConfig.testData, ...envConfig.testData }
     };
 }
 
@@ -1,5 +1,6 @@
 import { Page, Locator } from '@playwright/test';
 import { logger } from '../utils/logger';
+import { injectAxe, AxeSourceOptions } from './axe-loader';
 
 export interface AccessibilityViolation {
     id: string;
@@ -38,17 +39,14 @@ export class AccessibilityHelper {
     private violations: AccessibilityViolation[] = [];
     private reports: AccessibilityReport[] = [];
 
-    constructor(private page: Page) { }
+    constructor(private page: Page, private axeOptions?: AxeSourceOptions) { }
 
     /**
-     * Inject axe-core library
+     * Inject the locally installed axe-core library
      */
     private async injectAxe(): Promise<void> {
         try {
-            await this.page.addScriptTag({
-                url: 'https://cdnjs.cloudflare.com/ajax/libs/axe-core/4.7.2/axe.min.js'
-            });
-            logger.debug('Axe-core injected successfully');
+            await injectAxe(this.page, this.axeOptions);
         } catch (error) {
             logger.error('Failed to inject axe-core', { error });
             throw error;
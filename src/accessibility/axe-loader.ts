@@ -0,0 +1,166 @@
+import { Page, BrowserContext } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+
+export interface AxeSourceOptions {
+    version?: string;
+    sourcePath?: string;
+}
+
+export interface AxeSource {
+    version: string;
+    path: string;
+    content: string;
+}
+
+/**
+ * Raised when axe-core cannot be loaded from disk or injected into a page
+ */
+export class AxeInjectionError extends Error {
+    constructor(message: string, public originalError?: Error) {
+        super(message);
+        this.name = 'AxeInjectionError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, AxeInjectionError);
+        }
+    }
+}
+
+// Source files are read once per worker process
+const sourceCache: Map<string, AxeSource> = new Map();
+
+// Contexts that already carry the axe init script
+const initScriptContexts: WeakSet<BrowserContext> = new WeakSet();
+
+/**
+ * Read axe-core from the vendored path or the installed package
+ */
+export function loadAxeSource(options?: AxeSourceOptions): AxeSource {
+    const version = options?.version || config.accessibility.axeVersion;
+    const sourcePath = options?.sourcePath || config.accessibility.axeSourcePath;
+    const cacheKey = `${version}:${sourcePath || 'package'}`;
+
+    const cached = sourceCache.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const filePath = sourcePath ? path.resolve(sourcePath) : resolvePackagedAxe(version);
+
+    if (!fs.existsSync(filePath)) {
+        throw new AxeInjectionError(`axe-core source not found at ${filePath}`);
+    }
+
+    const source: AxeSource = {
+        version,
+        path: filePath,
+        content: fs.readFileSync(filePath, 'utf-8')
+    };
+
+    sourceCache.set(cacheKey, source);
+    logger.debug('Axe-core source loaded', { version, path: filePath });
+
+    return source;
+}
+
+/**
+ * Inject axe-core into the page, once per page and once per context for the fallback
+ */
+export async function injectAxe(page: Page, options?: AxeSourceOptions): Promise<void> {
+    const source = loadAxeSource(options);
+
+    if (await getInjectedVersion(page) === source.version) {
+        logger.debug('Axe-core already present on page', { version: source.version });
+        return;
+    }
+
+    try {
+        await page.addScriptTag({ content: source.content });
+    } catch (error) {
+        logger.debug('Axe-core script tag rejected', { error: (error as Error).message });
+    }
+
+    if (await getInjectedVersion(page) === source.version) {
+        logger.debug('Axe-core injected successfully', { version: source.version });
+        return;
+    }
+
+    // Script tag was blocked, most likely by the page's Content-Security-Policy
+    const csp = await getContentSecurityPolicy(page);
+    logger.warn('Axe-core script tag blocked, falling back to init script', {
+        url: page.url(),
+        csp: csp || 'unknown'
+    });
+
+    const context = page.context();
+    if (!initScriptContexts.has(context)) {
+        await context.addInitScript({ content: source.content });
+        initScriptContexts.add(context);
+    }
+
+    try {
+        await page.evaluate(source.content);
+    } catch (error) {
+        throw new AxeInjectionError(cspErrorMessage(page.url(), csp), error as Error);
+    }
+
+    if (await getInjectedVersion(page) !== source.version) {
+        throw new AxeInjectionError(cspErrorMessage(page.url(), csp));
+    }
+
+    logger.info('Axe-core injected via init script fallback', { version: source.version });
+}
+
+/**
+ * Locate axe.min.js in node_modules and verify it matches the pinned version
+ */
+function resolvePackagedAxe(version: string): string {
+    let packageJsonPath: string;
+
+    try {
+        packageJsonPath = require.resolve('axe-core/package.json');
+    } catch (error) {
+        throw new AxeInjectionError(
+            'axe-core is not installed. Run "npm install" or set AXE_SOURCE_PATH to a vendored axe.min.js',
+            error as Error
+        );
+    }
+
+    const installed = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')).version;
+    if (installed !== version) {
+        throw new AxeInjectionError(
+            `Installed axe-core ${installed} does not match pinned version ${version}. ` +
+            'Update AXE_VERSION or reinstall the pinned package.'
+        );
+    }
+
+    return path.join(path.dirname(packageJsonPath), 'axe.min.js');
+}
+
+async function getInjectedVersion(page: Page): Promise<string | undefined> {
+    try {
+        return await page.evaluate(() => (window as any).axe?.version);
+    } catch {
+        return undefined;
+    }
+}
+
+async function getContentSecurityPolicy(page: Page): Promise<string | undefined> {
+    try {
+        return await page.evaluate(() => {
+            const meta = document.querySelector('meta[http-equiv="Content-Security-Policy" i]');
+            return meta?.getAttribute('content') || undefined;
+        });
+    } catch {
+        return undefined;
+    }
+}
+
+function cspErrorMessage(url: string, csp?: string): string {
+    return `Failed to inject axe-core into ${url}. ` +
+        `The page's Content-Security-Policy${csp ? ` (${csp})` : ''} blocked the script and the init-script fallback did not load. ` +
+        'Create the browser context with bypassCSP: true to scan this page.';
+}
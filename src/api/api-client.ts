@@ -1,148 +1,186 @@
-import { APIRequestContext, APIResponse, request } from '@playwright/test';
+import { APIRequestContext, APIResponse, BrowserContext, request } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 import { logger } from '../utils/logger';
 import { config } from '../../config/test.config';
+import { SchemaValidator } from './schema-validator';
+import { OpenApiContract } from './openapi-contract';
+import { AuthContext, AuthProvider, AuthRequest, BearerTokenAuth } from './auth-providers';
+import {
+    AttemptOutcome,
+    RetryExhaustedError,
+    RetryPolicy,
+    canRetryMethod,
+    formatAttempts,
+    getRetryDelay,
+    isRetryableError,
+    resolveRetryPolicy
+} from './retry-policy';
+import { FormFields, MultipartFields, RequestPayload, checksum, toRequestPayload } from './request-body';
+import { extractJsonPath } from '../utils/json-path';
+import { JsonAssertion } from './json-assertion';
 
 export interface ApiClientOptions {
     baseURL?: string;
     extraHTTPHeaders?: Record<string, string>;
     timeout?: number;
+    contract?: OpenApiContract;
+    auth?: AuthProvider;
+    // Send requests through this browser context so both share one cookie jar
+    browserContext?: BrowserContext;
+    // Cookies/origins to start from (file path or object), when not sharing a browser context
+    storageState?: string | StorageState;
 }
 
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
 export interface RequestOptions {
     params?: Record<string, string | number>;
     headers?: Record<string, string>;
     timeout?: number;
+    retry?: Partial<RetryPolicy> | false;
+    // Alternatives to `data`: url-encoded form or multipart/form-data fields (see filePart)
+    form?: FormFields;
+    multipart?: MultipartFields;
+    // Content type for raw string/Buffer bodies
+    contentType?: string;
+}
+
+export interface DownloadResult {
+    path: string;
+    size: number;
+    sha256: string;
+    contentType?: string;
+    response: APIResponse;
 }
 
 export class ApiClient {
     private context!: APIRequestContext;
     private baseURL: string;
     private defaultHeaders: Record<string, string>;
+    private schemaValidator?: SchemaValidator;
+    private contract?: OpenApiContract;
+    private contractAction: 'fail' | 'warn' | 'off' = config.api.contractAction;
+    private authProvider?: AuthProvider;
+    private browserContext?: BrowserContext;
+    private storageState?: string | StorageState;
+    // Attempts and correlation ID behind each response, for assertion messages
+    private attemptHistory: WeakMap<APIResponse, { correlationId: string; attempts: AttemptOutcome[] }> = new WeakMap();
 
     constructor(options?: ApiClientOptions) {
         this.baseURL = options?.baseURL || config.baseURL;
         this.defaultHeaders = {
             'Accept': 'application/json',
-            'Content-Type': 'application/json',
             ...options?.extraHTTPHeaders
         };
+        this.contract = options?.contract;
+        // The spec's relative server URLs are served from this client's base URL
+        this.contract?.addServerOrigin(this.baseURL);
+        this.authProvider = options?.auth;
+        this.browserContext = options?.browserContext;
+        this.storageState = options?.storageState;
     }
 
     /**
      * Initialize the API request context
      */
     async init(): Promise<void> {
+        if (this.browserContext) {
+            // Cookies set by API responses reach the browser's pages and vice versa
+            this.context = this.browserContext.request;
+            logger.info('API Client initialized', { baseURL: this.baseURL, sharedWithBrowser: true });
+            return;
+        }
+
         this.context = await request.newContext({
             baseURL: this.baseURL,
             extraHTTPHeaders: this.defaultHeaders,
-            ignoreHTTPSErrors: true
+            ignoreHTTPSErrors: true,
+            storageState: this.storageState
         });
         logger.info('API Client initialized', { baseURL: this.baseURL });
     }
 
     /**
-     * Dispose the API request context
+     * Dispose the API request context (a shared one is closed with its browser context)
      */
     async dispose(): Promise<void> {
-        if (this.context) {
+        if (this.context && !this.browserContext) {
             await this.context.dispose();
             logger.info('API Client disposed');
         }
     }
 
     /**
-     * GET request
+     * Path of a named saved session in config.auth.storageStateDir
      */
-    async get(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
-        logger.info(`API GET Request`, { endpoint, params: options?.params });
-        const startTime = Date.now();
+    static getStorageStatePath(name: string): string {
+        return path.join(config.auth.storageStateDir, name.endsWith('.json') ? name : `${name}.json`);
+    }
 
-        try {
-            const response = await this.context.get(endpoint, {
-                params: options?.params,
-                headers: { ...this.defaultHeaders, ...options?.headers },
-                timeout: options?.timeout
-            });
+    /**
+     * Cookies and local storage of the session, optionally saved to a file that
+     * browser contexts (`storageState` option) or other clients can start from
+     */
+    async saveStorageState(filePath?: string): Promise<StorageState> {
+        if (filePath) {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        }
 
-            const duration = Date.now() - startTime;
-            this.logResponse(response, 'GET', endpoint, duration);
-            return response;
-        } catch (error) {
-            logger.error('API GET Request failed', { endpoint, error });
-            throw error;
+        // The browser context also knows the pages' local storage
+        const state = this.browserContext
+            ? await this.browserContext.storageState({ path: filePath })
+            : await this.context.storageState({ path: filePath });
+
+        logger.info('Storage state saved', { path: filePath, cookies: state.cookies.length });
+        return state;
+    }
+
+    /**
+     * Copy this client's cookies into a browser context so its pages start logged in.
+     * Not needed when the client shares that browser context.
+     */
+    async shareCookiesWith(browserContext: BrowserContext): Promise<void> {
+        if (browserContext === this.browserContext) {
+            return;
         }
+
+        const { cookies } = await this.context.storageState();
+        await browserContext.addCookies(cookies);
+        logger.info('API session cookies copied to browser context', { cookies: cookies.length });
+    }
+
+    /**
+     * GET request
+     */
+    async get(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
+        logger.info(`API GET Request`, { endpoint, params: options?.params });
+        return this.send('GET', endpoint, undefined, options);
     }
 
     /**
      * POST request
      */
     async post(endpoint: string, data?: any, options?: RequestOptions): Promise<APIResponse> {
-        logger.info(`API POST Request`, { endpoint, hasData: !!data });
-        const startTime = Date.now();
-
-        try {
-            const response = await this.context.post(endpoint, {
-                data,
-                params: options?.params,
-                headers: { ...this.defaultHeaders, ...options?.headers },
-                timeout: options?.timeout
-            });
-
-            const duration = Date.now() - startTime;
-            this.logResponse(response, 'POST', endpoint, duration);
-            return response;
-        } catch (error) {
-            logger.error('API POST Request failed', { endpoint, error });
-            throw error;
-        }
+        logger.info(`API POST Request`, { endpoint, hasData: !!(data || options?.form || options?.multipart) });
+        return this.send('POST', endpoint, data, options);
     }
 
     /**
      * PUT request
      */
     async put(endpoint: string, data?: any, options?: RequestOptions): Promise<APIResponse> {
-        logger.info(`API PUT Request`, { endpoint, hasData: !!data });
-        const startTime = Date.now();
-
-        try {
-            const response = await this.context.put(endpoint, {
-                data,
-                params: options?.params,
-                headers: { ...this.defaultHeaders, ...options?.headers },
-                timeout: options?.timeout
-            });
-
-            const duration = Date.now() - startTime;
-            this.logResponse(response, 'PUT', endpoint, duration);
-            return response;
-        } catch (error) {
-            logger.error('API PUT Request failed', { endpoint, error });
-            throw error;
-        }
+        logger.info(`API PUT Request`, { endpoint, hasData: !!(data || options?.form || options?.multipart) });
+        return this.send('PUT', endpoint, data, options);
     }
 
     /**
      * PATCH request
      */
     async patch(endpoint: string, data?: any, options?: RequestOptions): Promise<APIResponse> {
-        logger.info(`API PATCH Request`, { endpoint, hasData: !!data });
-        const startTime = Date.now();
-
-        try {
-            const response = await this.context.patch(endpoint, {
-                data,
-                params: options?.params,
-                headers: { ...this.defaultHeaders, ...options?.headers },
-                timeout: options?.timeout
-            });
-
-            const duration = Date.now() - startTime;
-            this.logResponse(response, 'PATCH', endpoint, duration);
-            return response;
-        } catch (error) {
-            logger.error('API PATCH Request failed', { endpoint, error });
-            throw error;
-        }
+        logger.info(`API PATCH Request`, { endpoint, hasData: !!(data || options?.form || options?.multipart) });
+        return this.send('PATCH', endpoint, data, options);
     }
 
     /**
@@ -150,29 +188,156 @@ export class ApiClient {
      */
     async delete(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
         logger.info(`API DELETE Request`, { endpoint });
+        return this.send('DELETE', endpoint, undefined, options);
+    }
+
+    /**
+     * Send a request under the retry policy; every attempt carries the same correlation ID
+     */
+    private async send(method: string, endpoint: string, data: any, options?: RequestOptions): Promise<APIResponse> {
+        const payload = toRequestPayload(data, options);
+        const policy = resolveRetryPolicy(options?.retry);
+        const retryable = canRetryMethod(policy, method);
+        const correlationId = randomUUID();
+        const attempts: AttemptOutcome[] = [];
         const startTime = Date.now();
 
-        try {
-            const response = await this.context.delete(endpoint, {
-                params: options?.params,
-                headers: { ...this.defaultHeaders, ...options?.headers },
-                timeout: options?.timeout
-            });
+        for (let attempt = 1; ; attempt++) {
+            const attemptStart = Date.now();
+            const canRetry = retryable && attempt < policy.maxAttempts;
+            let result: { response: APIResponse; headers: Record<string, string> };
 
-            const duration = Date.now() - startTime;
-            this.logResponse(response, 'DELETE', endpoint, duration);
+            try {
+                result = await this.sendAttempt(method, endpoint, payload, correlationId, options);
+            } catch (error) {
+                // Playwright appends a multi-line call log; the first line names the failure
+                const message = String((error as Error).message || error).split('\n')[0];
+                const outcome: AttemptOutcome = { attempt, error: message, duration: Date.now() - attemptStart };
+                attempts.push(outcome);
+
+                if (canRetry && isRetryableError(policy, error)) {
+                    outcome.delay = getRetryDelay(policy, attempt);
+                    logger.warn(`API ${method} attempt failed, retrying`, { endpoint, correlationId, attempt, error: outcome.error, delay: outcome.delay });
+                    await sleep(outcome.delay);
+                    continue;
+                }
+
+                logger.error(`API ${method} Request failed`, { endpoint, correlationId, error });
+                if (attempts.length > 1) {
+                    throw new RetryExhaustedError(
+                        `API ${method} ${endpoint} failed after ${attempts.length} attempts (correlation ID ${correlationId}):\n${formatAttempts(attempts)}`,
+                        correlationId,
+                        attempts
+                    );
+                }
+                throw error;
+            }
+
+            const { response, headers } = result;
+            const outcome: AttemptOutcome = { attempt, status: response.status(), duration: Date.now() - attemptStart };
+            attempts.push(outcome);
+
+            if (canRetry && policy.statuses.includes(response.status())) {
+                outcome.delay = getRetryDelay(policy, attempt, response.headers()['retry-after']);
+                logger.warn(`API ${method} attempt returned ${response.status()}, retrying`, { endpoint, correlationId, attempt, delay: outcome.delay });
+                await sleep(outcome.delay);
+                continue;
+            }
+
+            this.attemptHistory.set(response, { correlationId, attempts });
+            if (attempts.length > 1) {
+                logger.info(`API ${method} completed after ${attempts.length} attempts`, { endpoint, correlationId });
+            }
+
+            this.logResponse(response, method, endpoint, Date.now() - startTime);
+            await this.verifyContract(response, method, headers);
             return response;
-        } catch (error) {
-            logger.error('API DELETE Request failed', { endpoint, error });
-            throw error;
         }
     }
 
+    /**
+     * One attempt, retried once with renewed credentials when the auth provider handles a 401
+     */
+    private async sendAttempt(
+        method: string,
+        endpoint: string,
+        payload: RequestPayload,
+        correlationId: string,
+        options?: RequestOptions
+    ): Promise<{ response: APIResponse; headers: Record<string, string> }> {
+        let auth = await this.authorize(correlationId, payload, options);
+        let response = await this.fetch(method, endpoint, payload, auth, options?.timeout);
+
+        if (response.status() === 401 && this.authProvider?.onUnauthorized && await this.authProvider.onUnauthorized()) {
+            logger.info('Retrying request with renewed credentials', { method, endpoint, correlationId, provider: this.authProvider.name });
+            auth = await this.authorize(correlationId, payload, options);
+            response = await this.fetch(method, endpoint, payload, auth, options?.timeout);
+        }
+
+        return { response, headers: auth.headers };
+    }
+
+    /**
+     * Request headers and params with the active auth provider's credentials added
+     */
+    private async authorize(correlationId: string, payload: RequestPayload, options?: RequestOptions): Promise<AuthRequest> {
+        const auth: AuthRequest = {
+            headers: {
+                ...this.defaultHeaders,
+                [config.api.correlationHeader]: correlationId,
+                // Only bodies that need one get a Content-Type; an explicit header wins
+                ...(payload.contentType && { 'Content-Type': payload.contentType }),
+                ...options?.headers
+            },
+            params: { ...options?.params }
+        };
+
+        if (this.authProvider) {
+            await this.authProvider.apply(auth, this.authContext());
+        }
+
+        return auth;
+    }
+
+    /**
+     * Login and token requests of auth providers, resolved against this client's base URL
+     */
+    private authContext(): AuthContext {
+        return { post: (url, options) => this.context.post(typeof url === 'string' ? this.resolveUrl(url) : url, options) };
+    }
+
+    /**
+     * Absolute URL for an endpoint, the way Playwright applies baseURL.
+     * A shared browser context has no baseURL of its own, so URLs are always resolved here.
+     */
+    private resolveUrl(endpoint: string): string {
+        return new URL(endpoint, this.baseURL).toString();
+    }
+
+    private fetch(method: string, endpoint: string, payload: RequestPayload, auth: AuthRequest, timeout?: number): Promise<APIResponse> {
+        return this.context.fetch(this.resolveUrl(endpoint), {
+            method,
+            data: payload.data,
+            form: payload.form,
+            multipart: payload.multipart,
+            params: auth.params,
+            headers: auth.headers,
+            timeout
+        });
+    }
+
+    /**
+     * Attempts made for a response (one entry unless it was retried)
+     */
+    getAttempts(response: APIResponse): AttemptOutcome[] {
+        return this.attemptHistory.get(response)?.attempts || [];
+    }
+
     /**
      * Set authentication token
      */
     setAuthToken(token: string): void {
-        this.defaultHeaders['Authorization'] = `Bearer ${token}`;
+        this.authProvider = new BearerTokenAuth(token);
         logger.info('Auth token set');
     }
 
@@ -180,10 +345,32 @@ export class ApiClient {
      * Remove authentication token
      */
     removeAuthToken(): void {
-        delete this.defaultHeaders['Authorization'];
+        this.authProvider = undefined;
         logger.info('Auth token removed');
     }
 
+    /**
+     * Authenticate subsequent requests with a provider (replaces any previous one)
+     */
+    setAuthProvider(provider: AuthProvider | undefined): void {
+        this.authProvider = provider;
+        logger.info('Auth provider set', { provider: provider?.name || 'none' });
+    }
+
+    /**
+     * Override API_CONTRACT_ACTION for this client's requests
+     */
+    setContractAction(action: 'fail' | 'warn' | 'off'): void {
+        this.contractAction = action;
+    }
+
+    /**
+     * Name of the active auth provider
+     */
+    getAuthProviderName(): string {
+        return this.authProvider?.name || 'none';
+    }
+
     /**
      * Set custom header
      */
@@ -204,6 +391,73 @@ export class ApiClient {
         }
     }
 
+    /**
+     * Value at a JSONPath in the JSON body, e.g. `$.id` or `$.items[0].sku`
+     */
+    async extractField<T = unknown>(response: APIResponse, jsonPath: string): Promise<T> {
+        const value = extractJsonPath(await this.getJsonBody(response), jsonPath) as T;
+        logger.debug('Extracted response field', { jsonPath, value });
+        return value;
+    }
+
+    /**
+     * Response header value; throws when the header is missing
+     */
+    extractHeader(response: APIResponse, name: string): string {
+        const value = response.headers()[name.toLowerCase()];
+        if (value === undefined) {
+            throw new Error(`Response has no "${name}" header`);
+        }
+        return value;
+    }
+
+    /**
+     * Get response body as raw bytes
+     */
+    async getBinaryBody(response: APIResponse): Promise<Buffer> {
+        try {
+            return await response.body();
+        } catch (error) {
+            logger.error('Failed to get binary response', { error });
+            throw error;
+        }
+    }
+
+    /**
+     * GET a binary resource and save it to disk.
+     * Playwright buffers the whole body, so this suits files that fit in memory.
+     */
+    async download(endpoint: string, filePath: string, options?: RequestOptions): Promise<DownloadResult> {
+        const response = await this.get(endpoint, options);
+        await this.assertOk(response);
+
+        const body = await this.getBinaryBody(response);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, body);
+
+        const result: DownloadResult = {
+            path: filePath,
+            size: body.length,
+            sha256: checksum(body),
+            contentType: response.headers()['content-type'],
+            response
+        };
+        logger.info('Download saved', { endpoint, path: filePath, size: result.size, sha256: result.sha256 });
+        return result;
+    }
+
+    /**
+     * Assert a file or buffer has the expected hex digest
+     */
+    assertChecksum(file: string | Buffer, expected: string, algorithm: string = 'sha256'): void {
+        const actual = checksum(typeof file === 'string' ? fs.readFileSync(file) : file, algorithm);
+        if (actual !== expected.toLowerCase()) {
+            logger.error('Checksum assertion failed', { algorithm, expected, actual });
+            throw new Error(`Expected ${algorithm} ${expected}, got ${actual}`);
+        }
+        logger.info('Checksum assertion passed', { algorithm });
+    }
+
     /**
      * Get response body as text
      */
@@ -228,7 +482,7 @@ export class ApiClient {
                 actual: actualStatus,
                 body
             });
-            throw new Error(`Expected status ${expectedStatus}, got ${actualStatus}`);
+            throw new Error(`Expected status ${expectedStatus}, got ${actualStatus}${this.describeAttempts(response)}`);
         }
         logger.info('Status assertion passed', { status: expectedStatus });
     }
@@ -243,11 +497,63 @@ export class ApiClient {
                 status: response.status(),
                 body
             });
-            throw new Error(`Response not OK: ${response.status()}`);
+            throw new Error(`Response not OK: ${response.status()}${this.describeAttempts(response)}`);
         }
         logger.info('OK assertion passed', { status: response.status() });
     }
 
+    /**
+     * Assert the JSON body matches a schema file from config.api.schemaDir
+     */
+    async assertSchema(response: APIResponse, schemaName: string): Promise<void> {
+        const body = await this.getJsonBody(response);
+        this.schemaValidator = this.schemaValidator || new SchemaValidator();
+
+        try {
+            this.schemaValidator.assert(body, schemaName);
+        } catch (error) {
+            logger.error('Schema assertion failed', { schema: schemaName, url: response.url() });
+            throw error;
+        }
+        logger.info('Schema assertion passed', { schema: schemaName });
+    }
+
+    /**
+     * JSONPath / JSON Pointer assertions on the JSON body:
+     * (await apiClient.expectJson(response)).equals('$.id', 1).hasLength('$.roles', 2)
+     */
+    async expectJson(response: APIResponse): Promise<JsonAssertion> {
+        return new JsonAssertion(await this.getJsonBody(response));
+    }
+
+    /**
+     * Check the exchange against the OpenAPI contract, if one is configured and serves the URL
+     */
+    private async verifyContract(response: APIResponse, method: string, headers: Record<string, string>): Promise<void> {
+        if (!this.contract || this.contractAction === 'off' || !this.contract.coversUrl(response.url())) {
+            return;
+        }
+
+        this.contract.verify({
+            method,
+            url: response.url(),
+            status: response.status(),
+            requestHeaders: headers,
+            responseHeaders: response.headers(),
+            body: await response.text()
+        }, 'api', this.contractAction);
+    }
+
+    /**
+     * Attempt history suffix for assertion messages, empty for single-attempt responses
+     */
+    private describeAttempts(response: APIResponse): string {
+        const history = this.attemptHistory.get(response);
+        return history && history.attempts.length > 1
+            ? ` after ${history.attempts.length} attempts (correlation ID ${history.correlationId}):\n${formatAttempts(history.attempts)}`
+            : '';
+    }
+
     /**
      * Log response details
      */
@@ -264,4 +570,8 @@ export class ApiClient {
             ok: response.ok()
         });
     }
-}
\ No newline at end of file
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
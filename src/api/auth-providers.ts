@@ -0,0 +1,308 @@
+import { APIRequestContext } from '@playwright/test';
+import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+
+/**
+ * Headers and query parameters of an outgoing request, mutated by auth providers
+ */
+export interface AuthRequest {
+    headers: Record<string, string>;
+    params: Record<string, string | number>;
+}
+
+/**
+ * What providers use to log in or fetch tokens; relative URLs resolve against the ApiClient's base URL
+ */
+export type AuthContext = Pick<APIRequestContext, 'post'>;
+
+export interface AuthProvider {
+    readonly name: string;
+
+    /**
+     * Add credentials to the request, logging in or fetching a token first if needed
+     */
+    apply(request: AuthRequest, context: AuthContext): Promise<void>;
+
+    /**
+     * Called on a 401; return true when credentials were renewed and the request should be retried
+     */
+    onUnauthorized?(): Promise<boolean>;
+}
+
+export type AuthProviderName = 'none' | 'bearer' | 'basic' | 'api-key' | 'oauth2-client' | 'oauth2-password' | 'session';
+
+export class AuthenticationError extends Error {
+    constructor(message: string, public provider: string, public status?: number) {
+        super(message);
+        this.name = 'AuthenticationError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, AuthenticationError);
+        }
+    }
+}
+
+/**
+ * Static Bearer token
+ */
+export class BearerTokenAuth implements AuthProvider {
+    readonly name = 'bearer';
+
+    constructor(private token: string) { }
+
+    async apply(request: AuthRequest): Promise<void> {
+        request.headers['Authorization'] = `Bearer ${this.token}`;
+    }
+}
+
+/**
+ * HTTP Basic authentication
+ */
+export class BasicAuth implements AuthProvider {
+    readonly name = 'basic';
+
+    constructor(private username: string, private password: string) { }
+
+    async apply(request: AuthRequest): Promise<void> {
+        const encoded = Buffer.from(`${this.username}:${this.password}`).toString('base64');
+        request.headers['Authorization'] = `Basic ${encoded}`;
+    }
+}
+
+/**
+ * API key sent as a header or query parameter
+ */
+export class ApiKeyAuth implements AuthProvider {
+    readonly name = 'api-key';
+
+    constructor(private key: string, private value: string, private location: 'header' | 'query' = 'header') { }
+
+    async apply(request: AuthRequest): Promise<void> {
+        if (this.location === 'query') {
+            request.params[this.key] = this.value;
+        } else {
+            request.headers[this.key] = this.value;
+        }
+    }
+}
+
+export interface OAuth2Options {
+    grantType: 'client_credentials' | 'password';
+    tokenUrl: string;
+    clientId: string;
+    clientSecret?: string;
+    scope?: string;
+    username?: string;
+    password?: string;
+}
+
+interface CachedToken {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt: number;
+}
+
+// Shared across ApiClient instances so scenarios reuse a token until it expires
+const tokenCache: Map<string, CachedToken> = new Map();
+
+/**
+ * Forget all cached OAuth2 tokens, e.g. after the server that issued them was reset
+ */
+export function clearTokenCache(): void {
+    tokenCache.clear();
+}
+
+// Renew tokens slightly before they expire
+const EXPIRY_MARGIN_MS = 30000;
+
+/**
+ * OAuth2 client-credentials or password grant with token caching and refresh
+ */
+export class OAuth2Auth implements AuthProvider {
+    readonly name: string;
+    private cacheKey: string;
+
+    constructor(private options: OAuth2Options) {
+        this.name = options.grantType === 'password' ? 'oauth2-password' : 'oauth2-client';
+        this.cacheKey = [options.tokenUrl, options.grantType, options.clientId, options.username, options.scope].join('|');
+    }
+
+    async apply(request: AuthRequest, context: AuthContext): Promise<void> {
+        request.headers['Authorization'] = `Bearer ${await this.getAccessToken(context)}`;
+    }
+
+    async onUnauthorized(): Promise<boolean> {
+        logger.info('OAuth2 token rejected, fetching a new one', { provider: this.name });
+
+        // Keep the refresh token so the next request tries it before a full grant
+        const cached = tokenCache.get(this.cacheKey);
+        if (cached) {
+            cached.expiresAt = 0;
+        }
+        return true;
+    }
+
+    /**
+     * Cached token, refreshed or re-requested once it is about to expire
+     */
+    async getAccessToken(context: AuthContext): Promise<string> {
+        const cached = tokenCache.get(this.cacheKey);
+
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.accessToken;
+        }
+
+        if (cached?.refreshToken) {
+            try {
+                return await this.requestToken(context, { grant_type: 'refresh_token', refresh_token: cached.refreshToken });
+            } catch (error) {
+                logger.warn('OAuth2 token refresh failed, requesting a new token', { provider: this.name, error });
+            }
+        }
+
+        return this.requestToken(context, this.options.grantType === 'password'
+            ? { grant_type: 'password', username: this.options.username!, password: this.options.password! }
+            : { grant_type: 'client_credentials' });
+    }
+
+    private async requestToken(context: AuthContext, grant: Record<string, string>): Promise<string> {
+        const form: Record<string, string> = {
+            ...grant,
+            client_id: this.options.clientId,
+            ...(this.options.clientSecret && { client_secret: this.options.clientSecret }),
+            ...(this.options.scope && { scope: this.options.scope })
+        };
+
+        logger.info('Requesting OAuth2 token', { provider: this.name, grantType: grant.grant_type, tokenUrl: this.options.tokenUrl });
+
+        const response = await context.post(this.options.tokenUrl, {
+            form,
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' }
+        });
+
+        if (!response.ok()) {
+            throw new AuthenticationError(
+                `OAuth2 token request failed with ${response.status()}: ${await response.text()}`,
+                this.name,
+                response.status()
+            );
+        }
+
+        const body = await response.json();
+        if (!body.access_token) {
+            throw new AuthenticationError('OAuth2 token response has no access_token', this.name, response.status());
+        }
+
+        tokenCache.set(this.cacheKey, {
+            accessToken: body.access_token,
+            refreshToken: body.refresh_token,
+            expiresAt: Date.now() + (body.expires_in ? body.expires_in * 1000 - EXPIRY_MARGIN_MS : Infinity)
+        });
+
+        return body.access_token;
+    }
+}
+
+export interface SessionOptions {
+    loginUrl: string;
+    username: string;
+    password: string;
+    usernameField?: string;
+    passwordField?: string;
+    format?: 'json' | 'form';
+}
+
+/**
+ * Cookie session: logs in once and relies on the request context's cookie jar
+ */
+export class CookieSessionAuth implements AuthProvider {
+    readonly name = 'session';
+    private loggedIn = false;
+
+    constructor(private options: SessionOptions) { }
+
+    async apply(_request: AuthRequest, context: AuthContext): Promise<void> {
+        if (this.loggedIn) {
+            return;
+        }
+
+        const credentials = {
+            [this.options.usernameField || 'username']: this.options.username,
+            [this.options.passwordField || 'password']: this.options.password
+        };
+
+        logger.info('Logging in for a cookie session', { loginUrl: this.options.loginUrl });
+
+        const response = await context.post(this.options.loginUrl, this.options.format === 'form'
+            ? { form: credentials, headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+            : { data: credentials });
+
+        if (!response.ok()) {
+            throw new AuthenticationError(
+                `Session login failed with ${response.status()}: ${await response.text()}`,
+                this.name,
+                response.status()
+            );
+        }
+
+        this.loggedIn = true;
+    }
+
+    async onUnauthorized(): Promise<boolean> {
+        logger.info('Session rejected, logging in again');
+        this.loggedIn = false;
+        return true;
+    }
+}
+
+/**
+ * Build a provider from config.auth; throws when its credentials are not configured
+ */
+export function createAuthProvider(name: AuthProviderName = config.auth.provider): AuthProvider | undefined {
+    const auth = config.auth;
+
+    switch (name) {
+        case 'none':
+            return undefined;
+        case 'bearer':
+            return new BearerTokenAuth(required(name, 'API_BEARER_TOKEN', auth.bearerToken));
+        case 'basic':
+            return new BasicAuth(
+                required(name, 'API_BASIC_USERNAME', auth.basic.username),
+                required(name, 'API_BASIC_PASSWORD', auth.basic.password)
+            );
+        case 'api-key':
+            return new ApiKeyAuth(auth.apiKey.name, required(name, 'API_KEY', auth.apiKey.value), auth.apiKey.in);
+        case 'oauth2-client':
+        case 'oauth2-password':
+            return new OAuth2Auth({
+                grantType: name === 'oauth2-password' ? 'password' : 'client_credentials',
+                tokenUrl: required(name, 'OAUTH_TOKEN_URL', auth.oauth2.tokenUrl),
+                clientId: required(name, 'OAUTH_CLIENT_ID', auth.oauth2.clientId),
+                clientSecret: name === 'oauth2-client'
+                    ? required(name, 'OAUTH_CLIENT_SECRET', auth.oauth2.clientSecret)
+                    : auth.oauth2.clientSecret,
+                scope: auth.oauth2.scope,
+                username: name === 'oauth2-password' ? required(name, 'OAUTH_USERNAME', auth.oauth2.username) : undefined,
+                password: name === 'oauth2-password' ? required(name, 'OAUTH_PASSWORD', auth.oauth2.password) : undefined
+            });
+        case 'session':
+            return new CookieSessionAuth({
+                loginUrl: required(name, 'API_SESSION_LOGIN_URL', auth.session.loginUrl),
+                username: required(name, 'API_SESSION_USERNAME', auth.session.username),
+                password: required(name, 'API_SESSION_PASSWORD', auth.session.password),
+                usernameField: auth.session.usernameField,
+                passwordField: auth.session.passwordField,
+                format: auth.session.format
+            });
+        default:
+            throw new Error(`Unknown auth provider "${name}"`);
+    }
+}
+
+function required(provider: string, envVar: string, value?: string): string {
+    if (!value) {
+        throw new Error(`Auth provider "${provider}" needs ${envVar} to be set`);
+    }
+    return value;
+}
@@ -0,0 +1,373 @@
+import { JSONPath } from 'jsonpath-plus';
+import { isMultiMatchPath, queryJsonPath } from '../utils/json-path';
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'array' | 'object';
+
+/**
+ * One difference between expected and actual JSON
+ */
+export interface JsonDifference {
+    path: string;
+    kind: 'changed' | 'missing' | 'unexpected';
+    expected?: unknown;
+    actual?: unknown;
+}
+
+export class JsonAssertionError extends Error {
+    constructor(message: string, public path: string, public differences: JsonDifference[]) {
+        super(message);
+        this.name = 'JsonAssertionError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, JsonAssertionError);
+        }
+    }
+}
+
+/**
+ * Assertions on a JSON document. Paths are JSONPath (`$.items[0].id`) or JSON Pointer (`/items/0/id`);
+ * a bare key (`id`) is treated as `$.id`.
+ *
+ *   new JsonAssertion(body).ignoring('$..updatedAt').equals('$.user', { id: 1, name: 'Jane' })
+ */
+export class JsonAssertion {
+    private data: unknown;
+
+    constructor(data: unknown) {
+        this.data = clone(data);
+    }
+
+    /**
+     * Drop fields (at any JSONPath or pointer) before later comparisons
+     */
+    ignoring(...paths: string[]): this {
+        for (const path of paths) {
+            removePath(this.data, path);
+        }
+        return this;
+    }
+
+    /**
+     * Value at a path; a JSONPath with wildcards or filters yields an array of matches
+     */
+    get(path: string): unknown {
+        const { found, value } = resolvePath(this.data, path);
+        if (!found) {
+            this.fail(path, 'to exist', [{ path: displayPath(path), kind: 'missing' }]);
+        }
+        return value;
+    }
+
+    exists(path: string): this {
+        this.get(path);
+        return this;
+    }
+
+    notExists(path: string): this {
+        const { found, value } = resolvePath(this.data, path);
+        if (found) {
+            this.fail(path, 'not to exist', [{ path: displayPath(path), kind: 'unexpected', actual: value }]);
+        }
+        return this;
+    }
+
+    /**
+     * Deep equality
+     */
+    equals(path: string, expected: unknown): this {
+        const differences = diffJson(expected, this.get(path), displayPath(path));
+        if (differences.length > 0) {
+            this.fail(path, `to equal ${preview(expected)}`, differences);
+        }
+        return this;
+    }
+
+    /**
+     * Substring for strings, element for arrays (partial match for objects), subset for objects
+     */
+    contains(path: string, expected: unknown): this {
+        const actual = this.get(path);
+        const where = displayPath(path);
+
+        if (typeof actual === 'string') {
+            if (!actual.includes(String(expected))) {
+                this.fail(path, `to contain "${expected}"`, [{ path: where, kind: 'changed', expected, actual }]);
+            }
+        } else if (Array.isArray(actual)) {
+            if (!actual.some(item => diffJson(expected, item, where, true).length === 0)) {
+                this.fail(path, `to contain an element matching ${preview(expected)}`, nearestDifferences(expected, actual, where));
+            }
+        } else {
+            const differences = diffJson(expected, actual, where, true);
+            if (differences.length > 0) {
+                this.fail(path, `to contain ${preview(expected)}`, differences);
+            }
+        }
+        return this;
+    }
+
+    matches(path: string, pattern: RegExp | string): this {
+        const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+        const actual = this.get(path);
+
+        if (typeof actual !== 'string' && typeof actual !== 'number' || !regex.test(String(actual))) {
+            this.fail(path, `to match ${regex}`, [{ path: displayPath(path), kind: 'changed', expected: String(regex), actual }]);
+        }
+        return this;
+    }
+
+    hasType(path: string, type: JsonType): this {
+        const actual = this.get(path);
+        if (!isType(actual, type)) {
+            this.fail(path, `to be of type ${type}`, [{ path: displayPath(path), kind: 'changed', expected: type, actual: typeOf(actual) }]);
+        }
+        return this;
+    }
+
+    hasLength(path: string, length: number): this {
+        const actual = this.get(path);
+        if (!Array.isArray(actual) && typeof actual !== 'string') {
+            this.fail(path, 'to be an array or string', [{ path: displayPath(path), kind: 'changed', expected: 'array', actual: typeOf(actual) }]);
+        }
+
+        const actualLength = (actual as unknown[] | string).length;
+        if (actualLength !== length) {
+            this.fail(path, `to have length ${length}`, [{ path: `${displayPath(path)}.length`, kind: 'changed', expected: length, actual: actualLength }]);
+        }
+        return this;
+    }
+
+    /**
+     * Every element of the array at path contains the partial object.
+     * Fails when there is nothing to check (an empty array, or a filter that matched nothing),
+     * since that usually means a wrong path or filter rather than a pass.
+     */
+    every(path: string, partial: unknown): this {
+        const { found, value } = resolvePath(this.data, path);
+        if (!found || (Array.isArray(value) && value.length === 0)) {
+            this.fail(path, `every element to match ${preview(partial)}, but no elements matched`, [
+                { path: displayPath(path), kind: 'missing', expected: partial }
+            ]);
+        }
+
+        const items = this.getArray(path);
+        const differences = items.flatMap((item, index) => diffJson(partial, item, `${displayPath(path)}[${index}]`, true));
+        if (differences.length > 0) {
+            this.fail(path, `every element to match ${preview(partial)}`, differences);
+        }
+        return this;
+    }
+
+    /**
+     * At least one element of the array at path contains the partial object
+     */
+    some(path: string, partial: unknown): this {
+        const items = this.getArray(path);
+        if (!items.some(item => diffJson(partial, item, '', true).length === 0)) {
+            this.fail(path, `some element to match ${preview(partial)}`, nearestDifferences(partial, items, displayPath(path)));
+        }
+        return this;
+    }
+
+    private getArray(path: string): unknown[] {
+        const actual = this.get(path);
+        if (!Array.isArray(actual)) {
+            this.fail(path, 'to be an array', [{ path: displayPath(path), kind: 'changed', expected: 'array', actual: typeOf(actual) }]);
+        }
+        return actual as unknown[];
+    }
+
+    private fail(path: string, expectation: string, differences: JsonDifference[]): never {
+        throw new JsonAssertionError(
+            [`Expected ${displayPath(path)} ${expectation}`, ...differences.map(formatDifference)].join('\n'),
+            path,
+            differences
+        );
+    }
+}
+
+/**
+ * Parse a data table cell: numbers, booleans, null and JSON arrays/objects are converted;
+ * quote a cell ("42") to keep it a string
+ */
+export function coerceValue(text: string): unknown {
+    const trimmed = text.trim();
+
+    if (/^".*"$/.test(trimmed)) return trimmed.slice(1, -1);
+    if (trimmed === 'true') return true;
+    if (trimmed === 'false') return false;
+    if (trimmed === 'null') return null;
+    // Leading zeros (postcodes, ids) stay strings
+    if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+    if (/^[[{]/.test(trimmed)) {
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            return text;
+        }
+    }
+    return text;
+}
+
+/**
+ * Nested object from a table of dotted keys: { 'address.city': 'Paris' } → { address: { city: 'Paris' } }
+ */
+export function tableToObject(rows: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(rows)) {
+        const fields = key.replace(/^\$\./, '').split('.');
+        let target = result;
+        fields.slice(0, -1).forEach(field => {
+            target[field] = (target[field] as Record<string, unknown>) || {};
+            target = target[field] as Record<string, unknown>;
+        });
+        target[fields[fields.length - 1]] = value;
+    }
+    return result;
+}
+
+/**
+ * Differences between expected and actual; `partial` ignores keys that are only in actual
+ */
+export function diffJson(expected: unknown, actual: unknown, path: string = '$', partial: boolean = false): JsonDifference[] {
+    if (expected === null || typeof expected !== 'object' || actual === null || typeof actual !== 'object'
+        || Array.isArray(expected) !== Array.isArray(actual)) {
+        return expected === actual
+            ? []
+            : [{ path, kind: 'changed', expected, actual }];
+    }
+
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        const differences = expected.flatMap((item, index) =>
+            index < actual.length
+                ? diffJson(item, actual[index], `${path}[${index}]`, partial)
+                : [{ path: `${path}[${index}]`, kind: 'missing' as const, expected: item }]
+        );
+        if (!partial) {
+            actual.slice(expected.length).forEach((item, offset) =>
+                differences.push({ path: `${path}[${expected.length + offset}]`, kind: 'unexpected', actual: item })
+            );
+        }
+        return differences;
+    }
+
+    const expectedObject = expected as Record<string, unknown>;
+    const actualObject = actual as Record<string, unknown>;
+    const differences = Object.entries(expectedObject).flatMap(([key, value]) =>
+        key in actualObject
+            ? diffJson(value, actualObject[key], `${path}.${key}`, partial)
+            : [{ path: `${path}.${key}`, kind: 'missing' as const, expected: value }]
+    );
+
+    if (!partial) {
+        Object.keys(actualObject)
+            .filter(key => !(key in expectedObject))
+            .forEach(key => differences.push({ path: `${path}.${key}`, kind: 'unexpected', actual: actualObject[key] }));
+    }
+    return differences;
+}
+
+/**
+ * One line per difference
+ */
+export function formatDifference(difference: JsonDifference): string {
+    switch (difference.kind) {
+        case 'missing':
+            return `  ${difference.path}: missing${difference.expected !== undefined ? ` (expected ${preview(difference.expected)})` : ''}`;
+        case 'unexpected':
+            return `  ${difference.path}: unexpected ${preview(difference.actual)}`;
+        default:
+            return `  ${difference.path}: expected ${preview(difference.expected)}, got ${preview(difference.actual)}`;
+    }
+}
+
+function resolvePath(data: unknown, path: string): { found: boolean; value?: unknown } {
+    if (path === '' || path.startsWith('/')) {
+        let current: unknown = data;
+        for (const token of pointerTokens(path)) {
+            if (current === null || typeof current !== 'object' || !(token in (current as object))) {
+                return { found: false };
+            }
+            current = (current as Record<string, unknown>)[token];
+        }
+        return { found: true, value: current };
+    }
+
+    const jsonPath = toJsonPath(path);
+    const matches = queryJsonPath(data, jsonPath);
+    if (matches.length === 0) {
+        return { found: false };
+    }
+    // Wildcards and filters always yield the list of matches
+    return { found: true, value: isMultiMatchPath(jsonPath) ? matches : matches[0] };
+}
+
+function removePath(data: unknown, path: string): void {
+    if (path.startsWith('/')) {
+        const tokens = pointerTokens(path);
+        const parent = tokens.slice(0, -1).reduce<unknown>((current, token) =>
+            current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[token] : undefined,
+        data);
+        removeKey(parent, tokens[tokens.length - 1]);
+        return;
+    }
+
+    const results = JSONPath({ path: toJsonPath(path), json: data as object, resultType: 'all', wrap: true }) as Array<{ parent: unknown; parentProperty: string | number }>;
+    // Remove array elements from the end so earlier indexes stay valid
+    results.reverse().forEach(result => removeKey(result.parent, result.parentProperty));
+}
+
+function removeKey(parent: unknown, key: string | number): void {
+    if (Array.isArray(parent)) {
+        parent.splice(Number(key), 1);
+    } else if (parent !== null && typeof parent === 'object') {
+        delete (parent as Record<string, unknown>)[key];
+    }
+}
+
+function toJsonPath(path: string): string {
+    return path.startsWith('$') ? path : `$.${path}`;
+}
+
+function displayPath(path: string): string {
+    return path === '' || path.startsWith('/') ? path || '/' : toJsonPath(path);
+}
+
+function pointerTokens(pointer: string): string[] {
+    return pointer.split('/').slice(1).map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Differences against the element that came closest to matching
+ */
+function nearestDifferences(expected: unknown, items: unknown[], path: string): JsonDifference[] {
+    if (items.length === 0) {
+        return [{ path, kind: 'missing', expected }];
+    }
+
+    return items
+        .map((item, index) => diffJson(expected, item, `${path}[${index}]`, true))
+        .reduce((best, differences) => (differences.length < best.length ? differences : best));
+}
+
+function isType(value: unknown, type: JsonType): boolean {
+    return type === 'integer' ? Number.isInteger(value) : typeOf(value) === type;
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function preview(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    const text = JSON.stringify(value);
+    return text.length > 80 ? `${text.substring(0, 80)}…` : text;
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,615 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { parse as parseYaml } from 'yaml';
+import { logger } from '../utils/logger';
+import { checksum } from './request-body';
+import { config } from '../../config/test.config';
+
+/**
+ * A stateful CRUD collection served under `path` (GET/POST on the path, GET/PUT/PATCH/DELETE on path/:id)
+ */
+export interface MockCollection {
+    path: string;
+    idField?: string;
+    items: Array<Record<string, unknown>>;
+}
+
+/**
+ * A file store: a multipart POST to `path` keeps its file parts, GET path/:name serves one back
+ */
+export interface MockUploads {
+    path: string;
+}
+
+/**
+ * One response of a route
+ */
+export interface MockResponse {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+    // Serve a file (relative to the fixture directory) instead of body
+    file?: string;
+    delay?: number;
+}
+
+/**
+ * A fixed route; `path` may contain :params. With `sequence`, each call gets the
+ * next response and the last one repeats (e.g. 503 then 200).
+ */
+export interface MockRoute extends MockResponse {
+    method?: string;
+    path: string;
+    sequence?: MockResponse[];
+}
+
+/**
+ * Emulated authentication: protected paths answer 401 unless the request carries an
+ * issued token or session cookie, or one of the fixed credentials
+ */
+export interface MockAuth {
+    // Path prefixes that need a credential
+    protect: string[];
+    // OAuth2 token endpoint (password, client_credentials and refresh_token grants)
+    tokenPath?: string;
+    // Login endpoint that sets a session cookie
+    sessionPath?: string;
+    sessionCookie?: string;
+    expiresIn?: number;
+    // Header values that are always accepted, e.g. an API key
+    accept?: Array<{ header: string; value: string }>;
+}
+
+/**
+ * Counters of the emulated authentication since the last reset
+ */
+export interface MockAuthStats {
+    tokenGrants: Record<string, number>;
+    sessions: number;
+    unauthorized: number;
+}
+
+export interface MockServerFixture {
+    collections?: Record<string, MockCollection>;
+    uploads?: Record<string, MockUploads>;
+    routes?: MockRoute[];
+    auth?: MockAuth;
+}
+
+export interface MockServerOptions {
+    fixturesDir?: string;
+    port?: number;
+}
+
+interface CollectionState extends MockCollection {
+    idField: string;
+    nextId: number;
+}
+
+interface UploadState extends MockUploads {
+    files: Map<string, MultipartPart>;
+    nextId: number;
+}
+
+/**
+ * One part of a multipart/form-data body; `filename` is set for file parts
+ */
+interface MultipartPart {
+    name: string;
+    filename?: string;
+    contentType?: string;
+    data: Buffer;
+}
+
+/**
+ * Local HTTP server that serves API fixtures, so API scenarios run without network
+ */
+export class MockApiServer {
+    private server?: http.Server;
+    private fixturesDir: string;
+    private port: number;
+    private routes: MockRoute[] = [];
+    private routeHits: Map<MockRoute, number> = new Map();
+    private collections: Map<string, CollectionState> = new Map();
+    private uploads: Map<string, UploadState> = new Map();
+    private auth?: MockAuth;
+    private accessTokens: Set<string> = new Set();
+    private refreshTokens: Set<string> = new Set();
+    private sessions: Set<string> = new Set();
+    private credentialCount = 0;
+    private authStats: MockAuthStats = { tokenGrants: {}, sessions: 0, unauthorized: 0 };
+
+    constructor(options?: MockServerOptions) {
+        this.fixturesDir = options?.fixturesDir || config.mockServer.fixturesDir;
+        this.port = options?.port ?? config.mockServer.port;
+    }
+
+    /**
+     * Start listening (port 0 picks a free port) and return the base URL
+     */
+    async start(): Promise<string> {
+        if (this.server) {
+            return this.getBaseURL();
+        }
+
+        this.reset();
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                logger.error('Mock API server error', { url: req.url, error });
+                this.send(res, 500, { error: (error as Error).message });
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(this.port, '127.0.0.1', () => resolve());
+        });
+
+        logger.info('Mock API server started', {
+            baseURL: this.getBaseURL(),
+            routes: this.routes.length,
+            collections: [...this.collections.keys()],
+            uploads: [...this.uploads.keys()]
+        });
+        return this.getBaseURL();
+    }
+
+    /**
+     * Stop the server
+     */
+    async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) => this.server!.close(error => (error ? reject(error) : resolve())));
+        this.server = undefined;
+        logger.info('Mock API server stopped');
+    }
+
+    /**
+     * Reload fixtures, discarding changes made through the CRUD collections and uploaded files
+     */
+    reset(): void {
+        const fixture = this.loadFixtures();
+
+        this.routes = fixture.routes || [];
+        this.routeHits.clear();
+        this.collections.clear();
+
+        // Issued credentials do not survive a reset, like the rest of the state
+        this.auth = fixture.auth;
+        this.accessTokens.clear();
+        this.refreshTokens.clear();
+        this.sessions.clear();
+        this.authStats = { tokenGrants: {}, sessions: 0, unauthorized: 0 };
+
+        for (const [name, collection] of Object.entries(fixture.collections || {})) {
+            const idField = collection.idField || 'id';
+            const items = (collection.items || []).map(item => ({ ...item }));
+            const numericIds = items.map(item => Number(item[idField])).filter(id => !isNaN(id));
+
+            this.collections.set(name, {
+                ...collection,
+                path: collection.path.replace(/\/$/, ''),
+                idField,
+                items,
+                nextId: numericIds.length > 0 ? Math.max(...numericIds) + 1 : 1
+            });
+        }
+
+        this.uploads.clear();
+        for (const [name, uploads] of Object.entries(fixture.uploads || {})) {
+            this.uploads.set(name, { ...uploads, path: uploads.path.replace(/\/$/, ''), files: new Map(), nextId: 1 });
+        }
+
+        logger.debug('Mock API server state reset');
+    }
+
+    /**
+     * Base URL of the running server
+     */
+    getBaseURL(): string {
+        if (!this.server) {
+            throw new Error('Mock API server is not running');
+        }
+        const { port } = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    /**
+     * Current items of a collection
+     */
+    getCollection(name: string): Array<Record<string, unknown>> {
+        const collection = this.collections.get(name);
+        if (!collection) {
+            throw new Error(`Unknown mock collection "${name}"`);
+        }
+        return collection.items.map(item => ({ ...item }));
+    }
+
+    /**
+     * Invalidate issued access tokens and sessions, as if they had expired.
+     * Refresh tokens stay valid.
+     */
+    expireCredentials(): void {
+        this.accessTokens.clear();
+        this.sessions.clear();
+        logger.info('Mock API credentials expired');
+    }
+
+    /**
+     * Tokens issued per grant type, sessions started and requests rejected with 401
+     */
+    getAuthStats(): MockAuthStats {
+        return { ...this.authStats, tokenGrants: { ...this.authStats.tokenGrants } };
+    }
+
+    private loadFixtures(): MockServerFixture {
+        const merged: MockServerFixture & Required<Pick<MockServerFixture, 'collections' | 'routes'>> = { collections: {}, routes: [] };
+
+        if (!fs.existsSync(this.fixturesDir)) {
+            logger.warn('Mock API fixture directory not found', { dir: this.fixturesDir });
+            return merged;
+        }
+
+        for (const file of fs.readdirSync(this.fixturesDir).filter(name => /\.(json|ya?ml)$/.test(name)).sort()) {
+            const content = fs.readFileSync(path.join(this.fixturesDir, file), 'utf-8');
+            const fixture: MockServerFixture = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+
+            Object.assign(merged.collections, fixture.collections);
+            merged.uploads = { ...merged.uploads, ...fixture.uploads };
+            merged.routes.push(...(fixture.routes || []));
+            merged.auth = fixture.auth || merged.auth;
+        }
+
+        return merged;
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const method = (req.method || 'GET').toUpperCase();
+        const url = new URL(req.url || '/', 'http://localhost');
+        const body = await this.readBody(req, String(req.headers['content-type'] || ''));
+
+        logger.debug('Mock API request', { method, path: url.pathname });
+
+        if (this.auth && this.handleAuth(this.auth, req, method, url, body, res)) {
+            return;
+        }
+
+        // Fixed routes win over collections so single endpoints can be overridden
+        for (const route of this.routes) {
+            if (route.method && route.method.toUpperCase() !== method) continue;
+            if (!matchPath(route.path, url.pathname)) continue;
+
+            const hits = this.routeHits.get(route) || 0;
+            this.routeHits.set(route, hits + 1);
+            const reply = route.sequence?.length ? route.sequence[Math.min(hits, route.sequence.length - 1)] : route;
+
+            if (reply.delay) {
+                await new Promise(resolve => setTimeout(resolve, reply.delay));
+            }
+            const body = reply.file ? fs.readFileSync(path.resolve(this.fixturesDir, reply.file)) : reply.body;
+            this.send(res, reply.status || 200, body, reply.headers);
+            return;
+        }
+
+        for (const collection of this.collections.values()) {
+            if (url.pathname === collection.path) {
+                this.handleCollection(collection, method, url, body, res);
+                return;
+            }
+
+            const params = matchPath(`${collection.path}/:id`, url.pathname);
+            if (params) {
+                this.handleItem(collection, method, params.id, body, res);
+                return;
+            }
+        }
+
+        for (const uploads of this.uploads.values()) {
+            if (url.pathname === uploads.path) {
+                this.handleUpload(uploads, method, body, res);
+                return;
+            }
+
+            const params = matchPath(`${uploads.path}/:name`, url.pathname);
+            if (params) {
+                this.handleUploadedFile(uploads, method, params.name, res);
+                return;
+            }
+        }
+
+        this.send(res, 404, { error: `No mock route for ${method} ${url.pathname}` });
+    }
+
+    /**
+     * Token and session endpoints, and 401 for protected paths without a valid credential.
+     * Returns true when the response has been sent.
+     */
+    private handleAuth(auth: MockAuth, req: http.IncomingMessage, method: string, url: URL, body: unknown, res: http.ServerResponse): boolean {
+        if (method === 'POST' && url.pathname === auth.tokenPath) {
+            const form = isObject(body) ? body : {};
+            const grant = String(form.grant_type || '');
+            // A refresh token can be used once
+            if (grant === 'refresh_token' && !this.refreshTokens.delete(String(form.refresh_token))) {
+                this.send(res, 400, { error: 'invalid_grant' });
+                return true;
+            }
+
+            const id = ++this.credentialCount;
+            this.accessTokens.add(`mock-access-token-${id}`);
+            this.refreshTokens.add(`mock-refresh-token-${id}`);
+            this.authStats.tokenGrants[grant] = (this.authStats.tokenGrants[grant] || 0) + 1;
+
+            this.send(res, 200, {
+                access_token: `mock-access-token-${id}`,
+                token_type: 'Bearer',
+                expires_in: auth.expiresIn || 3600,
+                refresh_token: `mock-refresh-token-${id}`
+            });
+            return true;
+        }
+
+        const cookieName = auth.sessionCookie || 'session';
+        if (method === 'POST' && url.pathname === auth.sessionPath) {
+            const session = `mock-session-${++this.credentialCount}`;
+            this.sessions.add(session);
+            this.authStats.sessions++;
+            this.send(res, 204, undefined, { 'Set-Cookie': `${cookieName}=${session}; Path=/; HttpOnly` });
+            return true;
+        }
+
+        if (!auth.protect.some(prefix => url.pathname === prefix || url.pathname.startsWith(`${prefix.replace(/\/$/, '')}/`))) {
+            return false;
+        }
+
+        const authorization = String(req.headers['authorization'] || '');
+        const cookies = Object.fromEntries(String(req.headers['cookie'] || '')
+            .split(';')
+            .map(part => part.trim().split('='))
+            .filter(([name]) => name));
+
+        const authorized = this.accessTokens.has(authorization.replace(/^Bearer /, ''))
+            || this.sessions.has(cookies[cookieName])
+            || (auth.accept || []).some(credential => req.headers[credential.header.toLowerCase()] === credential.value);
+
+        if (authorized) {
+            return false;
+        }
+
+        this.authStats.unauthorized++;
+        this.send(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+        return true;
+    }
+
+    private handleCollection(
+        collection: CollectionState,
+        method: string,
+        url: URL,
+        body: unknown,
+        res: http.ServerResponse
+    ): void {
+        if (method === 'GET') {
+            // Query parameters filter on equal field values
+            const filters = [...url.searchParams];
+            const items = collection.items.filter(item =>
+                filters.every(([key, value]) => String(item[key]) === value)
+            );
+            this.send(res, 200, items);
+            return;
+        }
+
+        if (method === 'POST') {
+            if (!isObject(body)) {
+                this.send(res, 400, { error: 'Expected a JSON object body' });
+                return;
+            }
+            const item = { [collection.idField]: collection.nextId++, ...body };
+            collection.items.push(item);
+            this.send(res, 201, item, { Location: `${collection.path}/${item[collection.idField]}` });
+            return;
+        }
+
+        this.send(res, 405, { error: `${method} not allowed on ${collection.path}` });
+    }
+
+    private handleItem(
+        collection: CollectionState,
+        method: string,
+        id: string,
+        body: unknown,
+        res: http.ServerResponse
+    ): void {
+        const index = collection.items.findIndex(item => String(item[collection.idField]) === id);
+
+        if (index === -1) {
+            this.send(res, 404, { error: `${collection.path}/${id} not found` });
+            return;
+        }
+
+        const current = collection.items[index];
+
+        switch (method) {
+            case 'GET':
+                this.send(res, 200, current);
+                return;
+            case 'PUT':
+            case 'PATCH':
+                if (!isObject(body)) {
+                    this.send(res, 400, { error: 'Expected a JSON object body' });
+                    return;
+                }
+                collection.items[index] = method === 'PUT'
+                    ? { ...body, [collection.idField]: current[collection.idField] }
+                    : { ...current, ...body, [collection.idField]: current[collection.idField] };
+                this.send(res, 200, collection.items[index]);
+                return;
+            case 'DELETE':
+                collection.items.splice(index, 1);
+                this.send(res, 204);
+                return;
+            default:
+                this.send(res, 405, { error: `${method} not allowed on ${collection.path}/${id}` });
+        }
+    }
+
+    /**
+     * Keep the file parts of a multipart upload and describe the first one, so scenarios
+     * can check what actually arrived rather than a canned reply
+     */
+    private handleUpload(uploads: UploadState, method: string, body: unknown, res: http.ServerResponse): void {
+        if (method !== 'POST') {
+            this.send(res, 405, { error: `${method} not allowed on ${uploads.path}` });
+            return;
+        }
+
+        const files = isMultipart(body) ? body.filter(part => part.filename !== undefined) : [];
+        if (files.length === 0) {
+            this.send(res, 400, { error: 'Expected a multipart/form-data body with a file' });
+            return;
+        }
+
+        for (const file of files) {
+            uploads.files.set(file.filename!, file);
+        }
+
+        const [file] = files;
+        this.send(res, 201, {
+            id: uploads.nextId++,
+            name: file.filename,
+            field: file.name,
+            contentType: file.contentType,
+            size: file.data.length,
+            sha256: checksum(file.data),
+            uploaded: true
+        });
+    }
+
+    private handleUploadedFile(uploads: UploadState, method: string, name: string, res: http.ServerResponse): void {
+        if (method !== 'GET') {
+            this.send(res, 405, { error: `${method} not allowed on ${uploads.path}/${name}` });
+            return;
+        }
+
+        const file = uploads.files.get(name);
+        if (!file) {
+            this.send(res, 404, { error: `No uploaded file "${name}" in ${uploads.path}` });
+            return;
+        }
+
+        this.send(res, 200, file.data, {
+            'Content-Type': file.contentType || 'application/octet-stream',
+            'Content-Disposition': `attachment; filename="${name}"`
+        });
+    }
+
+    private async readBody(req: http.IncomingMessage, contentType: string): Promise<unknown> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+
+        const buffer = Buffer.concat(chunks);
+        if (buffer.length === 0) return undefined;
+
+        // File parts stay binary, so uploads can be checked byte for byte
+        if (contentType.startsWith('multipart/form-data')) {
+            return parseMultipart(buffer, contentType);
+        }
+
+        const raw = buffer.toString('utf-8');
+
+        if (contentType.startsWith('application/x-www-form-urlencoded')) {
+            return Object.fromEntries(new URLSearchParams(raw));
+        }
+
+        try {
+            return JSON.parse(raw);
+        } catch {
+            return raw;
+        }
+    }
+
+    private send(res: http.ServerResponse, status: number, body?: unknown, headers?: Record<string, string>): void {
+        if (res.headersSent) return;
+
+        const payload = body === undefined ? '' : typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body);
+        const contentType = Buffer.isBuffer(body) ? 'application/octet-stream' : typeof body === 'string' ? 'text/plain' : 'application/json';
+        res.writeHead(status, {
+            ...(payload.length > 0 && { 'Content-Type': contentType }),
+            ...headers
+        });
+        res.end(payload);
+    }
+}
+
+/**
+ * Match a path template with :params against a pathname
+ */
+function matchPath(template: string, pathname: string): Record<string, string> | undefined {
+    const templateParts = template.replace(/\/$/, '').split('/');
+    const pathParts = pathname.replace(/\/$/, '').split('/');
+
+    if (templateParts.length !== pathParts.length) {
+        return undefined;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < templateParts.length; i++) {
+        if (templateParts[i].startsWith(':')) {
+            params[templateParts[i].substring(1)] = decodeURIComponent(pathParts[i]);
+        } else if (templateParts[i] !== pathParts[i]) {
+            return undefined;
+        }
+    }
+    return params;
+}
+
+/**
+ * Split a multipart/form-data body into its parts
+ */
+function parseMultipart(buffer: Buffer, contentType: string): MultipartPart[] {
+    const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    if (!boundary) return [];
+
+    const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+    const parts: MultipartPart[] = [];
+    let start = buffer.indexOf(delimiter);
+
+    while (start !== -1) {
+        const partStart = start + delimiter.length;
+        // The closing delimiter ends with "--"
+        if (buffer.subarray(partStart, partStart + 2).toString() === '--') break;
+
+        const end = buffer.indexOf(delimiter, partStart);
+        if (end === -1) break;
+
+        // A part runs from the CRLF after its delimiter to the CRLF before the next one
+        const part = buffer.subarray(partStart + 2, end - 2);
+        const headerEnd = part.indexOf('\r\n\r\n');
+        if (headerEnd !== -1) {
+            const headers = part.subarray(0, headerEnd).toString('utf-8');
+            const disposition = /content-disposition:[^\r\n]*/i.exec(headers)?.[0] || '';
+            parts.push({
+                name: /\bname="([^"]*)"/i.exec(disposition)?.[1] || '',
+                filename: /\bfilename="([^"]*)"/i.exec(disposition)?.[1],
+                contentType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1].trim(),
+                data: part.subarray(headerEnd + 4)
+            });
+        }
+        start = end;
+    }
+
+    return parts;
+}
+
+function isMultipart(body: unknown): body is MultipartPart[] {
+    return Array.isArray(body) && body.every(part => Buffer.isBuffer(part?.data));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
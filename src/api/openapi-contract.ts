@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv2020, { ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { parse as parseYaml } from 'yaml';
+import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+import { toViolations } from './schema-validator';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * A request/response pair to check, from ApiClient or captured browser traffic
+ */
+export interface ContractExchange {
+    method: string;
+    url: string;
+    status: number;
+    requestHeaders?: Record<string, string>;
+    responseHeaders?: Record<string, string>;
+    body?: string;
+}
+
+export interface ContractCheck {
+    operation?: string;
+    method: string;
+    url: string;
+    status: number;
+    source: 'api' | 'ui';
+    violations: string[];
+    timestamp: string;
+}
+
+export interface OperationCoverage {
+    operation: string;
+    calls: number;
+    violations: number;
+    statuses: number[];
+}
+
+export interface ContractCoverage {
+    spec: string;
+    total: number;
+    exercised: number;
+    percent: number;
+    operations: OperationCoverage[];
+    undocumented: ContractCheck[];
+    violations: ContractCheck[];
+}
+
+export class ContractViolationError extends Error {
+    constructor(message: string, public check: ContractCheck) {
+        super(message);
+        this.name = 'ContractViolationError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, ContractViolationError);
+        }
+    }
+}
+
+interface Server {
+    // Undefined for relative server URLs, which are served from the API base URL(s) in use
+    origin?: string;
+    basePath: string;
+}
+
+interface Operation {
+    key: string;
+    method: string;
+    pattern: RegExp;
+    pointer: string;
+    definition: Record<string, any>;
+    pathParameters: Array<Record<string, any>>;
+}
+
+/**
+ * Checks HTTP exchanges against an OpenAPI 3 document and records coverage for the run
+ */
+export class OpenApiContract {
+    private spec: Record<string, any>;
+    private operations: Operation[];
+    private servers: Server[];
+    // Origins that relative server URLs resolve against
+    private apiOrigins: Set<string> = new Set();
+    private ajv: Ajv2020;
+    private validators: Map<string, ValidateFunction> = new Map();
+    private checks: ContractCheck[] = [];
+
+    constructor(private specPath: string = config.api.openApiSpec) {
+        const content = fs.readFileSync(specPath, 'utf-8');
+        this.spec = specPath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+
+        if (!String(this.spec.openapi || '').startsWith('3.')) {
+            throw new Error(`${specPath} is not an OpenAPI 3 document`);
+        }
+
+        this.ajv = new Ajv2020({ allErrors: true, strict: false, validateSchema: false });
+        addFormats(this.ajv);
+        // Schemas are compiled from pointers into the document so local $refs resolve
+        this.ajv.addSchema(this.spec, 'openapi.json');
+
+        this.servers = (this.spec.servers || [{ url: '/' }]).map((server: Record<string, any>) => {
+            // Server variables take their default values
+            const url = String(server.url).replace(/\{([^}]+)\}/g, (_, name) => server.variables?.[name]?.default ?? '');
+            const absolute = /^[a-z][a-z\d+.-]*:\/\//i.test(url);
+            const parsed = new URL(url, 'http://localhost');
+            return {
+                origin: absolute ? parsed.origin : undefined,
+                basePath: parsed.pathname.replace(/\/$/, '')
+            };
+        });
+        this.operations = this.collectOperations();
+
+        logger.info('OpenAPI contract loaded', { spec: specPath, operations: this.operations.length });
+    }
+
+    /**
+     * Load the configured spec, or undefined when contract checks are off or the file is missing
+     */
+    static loadConfigured(): OpenApiContract | undefined {
+        if (config.api.contractAction === 'off' || !fs.existsSync(config.api.openApiSpec)) {
+            return undefined;
+        }
+        return new OpenApiContract();
+    }
+
+    /**
+     * Operation keys ("GET /users/{id}") declared in the spec
+     */
+    getOperations(): string[] {
+        return this.operations.map(operation => operation.key);
+    }
+
+    /**
+     * Register the origin of an API base URL, so the spec's relative server URLs match requests to it
+     */
+    addServerOrigin(baseURL: string): void {
+        this.apiOrigins.add(new URL(baseURL).origin);
+    }
+
+    /**
+     * Whether a URL is served by one of the spec's servers, matching host and base path
+     */
+    coversUrl(url: string): boolean {
+        return this.matchServer(url) !== undefined;
+    }
+
+    /**
+     * Check path, method, status, required headers and response schema, and record the result
+     */
+    check(exchange: ContractExchange, source: 'api' | 'ui' = 'api'): ContractCheck {
+        const method = exchange.method.toUpperCase();
+        const pathname = this.matchServer(exchange.url);
+        const operation = pathname === undefined
+            ? undefined
+            : this.operations.find(candidate => candidate.method === method && candidate.pattern.test(pathname));
+
+        const result: ContractCheck = {
+            operation: operation?.key,
+            method,
+            url: exchange.url,
+            status: exchange.status,
+            source,
+            violations: operation
+                ? this.checkOperation(operation, exchange)
+                : [`${method} ${pathname ?? exchange.url} is not documented in the spec`],
+            timestamp: new Date().toISOString()
+        };
+
+        this.checks.push(result);
+
+        if (result.violations.length > 0) {
+            logger.warn('OpenAPI contract violation', {
+                request: `${method} ${exchange.url}`,
+                status: exchange.status,
+                violations: result.violations
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Check an exchange and throw in 'fail' mode when it violates the contract
+     */
+    verify(
+        exchange: ContractExchange,
+        source: 'api' | 'ui' = 'api',
+        action: 'fail' | 'warn' | 'off' = config.api.contractAction
+    ): ContractCheck {
+        const result = this.check(exchange, source);
+
+        if (result.violations.length > 0 && action === 'fail') {
+            throw new ContractViolationError(formatCheck(result), result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks recorded since this instance was created
+     */
+    getChecks(): ContractCheck[] {
+        return [...this.checks];
+    }
+
+    /**
+     * Write this process's checks so the run report can merge them across workers
+     */
+    saveResults(dir: string = config.api.contractReportDir): string | undefined {
+        if (this.checks.length === 0) {
+            return undefined;
+        }
+
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const filePath = path.join(dir, `checks-${process.pid}-${Date.now()}.json`);
+        fs.writeFileSync(filePath, JSON.stringify(this.checks, null, 2));
+        logger.info('OpenAPI contract results saved', { path: filePath, checks: this.checks.length });
+        return filePath;
+    }
+
+    /**
+     * Read checks written by saveResults, optionally only files written after a point in time
+     */
+    static readResults(dir: string = config.api.contractReportDir, since?: number): ContractCheck[] {
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+
+        return fs.readdirSync(dir)
+            .filter(file => file.startsWith('checks-') && file.endsWith('.json'))
+            .map(file => path.join(dir, file))
+            .filter(filePath => since === undefined || fs.statSync(filePath).mtimeMs >= since)
+            .flatMap(filePath => JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ContractCheck[]);
+    }
+
+    /**
+     * Which operations were exercised and which responses broke the contract
+     */
+    getCoverage(checks: ContractCheck[] = this.checks): ContractCoverage {
+        const operations = this.operations.map(operation => {
+            const calls = checks.filter(check => check.operation === operation.key);
+            return {
+                operation: operation.key,
+                calls: calls.length,
+                violations: calls.filter(check => check.violations.length > 0).length,
+                statuses: [...new Set(calls.map(check => check.status))].sort((a, b) => a - b)
+            };
+        });
+        const exercised = operations.filter(operation => operation.calls > 0).length;
+
+        return {
+            spec: this.specPath,
+            total: operations.length,
+            exercised,
+            percent: operations.length > 0 ? Math.round((exercised / operations.length) * 1000) / 10 : 0,
+            operations,
+            undocumented: checks.filter(check => !check.operation),
+            violations: checks.filter(check => check.operation && check.violations.length > 0)
+        };
+    }
+
+    private checkOperation(operation: Operation, exchange: ContractExchange): string[] {
+        const violations: string[] = [];
+        const responses: Record<string, any> = operation.definition.responses || {};
+        const status = String(exchange.status);
+        const responseKey = [status, `${status[0]}XX`, 'default'].find(key => key in responses);
+
+        // Required request headers come from path- and operation-level header parameters
+        const requestHeaders = lowerCaseKeys(exchange.requestHeaders);
+        for (const parameter of [...operation.pathParameters, ...(operation.definition.parameters || [])]) {
+            const resolved = this.resolve(parameter).value;
+            if (resolved.in === 'header' && resolved.required && !(resolved.name.toLowerCase() in requestHeaders)) {
+                violations.push(`request header "${resolved.name}" is required`);
+            }
+        }
+
+        if (!responseKey) {
+            violations.push(`status ${status} is not documented (documented: ${Object.keys(responses).join(', ')})`);
+            return violations;
+        }
+
+        const { value: response, pointer: responsePointer } = this.resolve(
+            responses[responseKey],
+            `${operation.pointer}/responses/${escapeToken(responseKey)}`
+        );
+
+        const responseHeaders = lowerCaseKeys(exchange.responseHeaders);
+        for (const [name, header] of Object.entries<any>(response.headers || {})) {
+            if (this.resolve(header).value.required && !(name.toLowerCase() in responseHeaders)) {
+                violations.push(`response header "${name}" is required`);
+            }
+        }
+
+        const content: Record<string, any> = response.content || {};
+        const contentType = (responseHeaders['content-type'] || '').split(';')[0].trim().toLowerCase();
+        const mediaType = Object.keys(content).find(type => type.toLowerCase() === contentType)
+            || Object.keys(content).find(type => type.endsWith('/*') && contentType.startsWith(type.slice(0, -1)))
+            || ('*/*' in content ? '*/*' : undefined);
+
+        if (Object.keys(content).length > 0 && !mediaType) {
+            violations.push(`content type "${contentType || 'none'}" is not one of ${Object.keys(content).join(', ')}`);
+            return violations;
+        }
+
+        if (mediaType && content[mediaType].schema && /json/.test(contentType)) {
+            let body: unknown;
+            try {
+                body = JSON.parse(exchange.body || '');
+            } catch {
+                violations.push('response body is not valid JSON');
+                return violations;
+            }
+
+            const validateFn = this.getValidator(`${responsePointer}/content/${escapeToken(mediaType)}/schema`);
+            if (!validateFn(body)) {
+                violations.push(...toViolations(validateFn.errors || [], body).map(violation =>
+                    `body ${violation.pointer || '/'}: expected ${violation.expected}, got ${violation.actual}`
+                ));
+            }
+        }
+
+        return violations;
+    }
+
+    private getValidator(pointer: string): ValidateFunction {
+        let validateFn = this.validators.get(pointer);
+        if (!validateFn) {
+            validateFn = this.ajv.compile({ $ref: `openapi.json#${pointer.split('/').map(encodeURIComponent).join('/')}` });
+            this.validators.set(pointer, validateFn);
+        }
+        return validateFn;
+    }
+
+    /**
+     * Follow local $refs, keeping track of where the resolved object lives
+     */
+    private resolve(node: any, pointer: string = ''): { value: any; pointer: string } {
+        let value = node;
+        let current = pointer;
+
+        while (value && typeof value.$ref === 'string' && value.$ref.startsWith('#/')) {
+            current = value.$ref.substring(1);
+            value = current
+                .split('/')
+                .slice(1)
+                .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+                .reduce((parent: any, token) => parent?.[token], this.spec);
+        }
+
+        if (value === undefined) {
+            throw new Error(`Unresolvable reference ${current} in ${this.specPath}`);
+        }
+
+        return { value, pointer: current };
+    }
+
+    private collectOperations(): Operation[] {
+        const operations: Operation[] = [];
+
+        for (const [template, pathItem] of Object.entries<any>(this.spec.paths || {})) {
+            const pattern = new RegExp(
+                `^${template.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{[^}]+\}/g, '[^/]+')}/?$`
+            );
+
+            for (const method of HTTP_METHODS.filter(name => pathItem[name])) {
+                operations.push({
+                    key: `${method.toUpperCase()} ${template}`,
+                    method: method.toUpperCase(),
+                    pattern,
+                    pointer: `/paths/${escapeToken(template)}/${method}`,
+                    definition: pathItem[method],
+                    pathParameters: pathItem.parameters || []
+                });
+            }
+        }
+
+        // Literal segments beat parameters, so /users/me is preferred over /users/{id}
+        return operations.sort((a, b) => countParams(a.key) - countParams(b.key));
+    }
+
+    /**
+     * Path relative to the matching server's base path, or undefined when no server serves the URL
+     */
+    private matchServer(url: string): string | undefined {
+        const { origin, pathname } = new URL(url, 'http://localhost');
+
+        for (const server of this.servers) {
+            if (server.origin ? server.origin !== origin : !this.apiOrigins.has(origin)) {
+                continue;
+            }
+            if (!server.basePath) {
+                return pathname;
+            }
+            if (pathname === server.basePath || pathname.startsWith(`${server.basePath}/`)) {
+                return pathname.substring(server.basePath.length) || '/';
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * One-line summary of a check and its violations
+ */
+export function formatCheck(check: ContractCheck): string {
+    return [
+        `${check.method} ${check.url} (${check.status}) violates the OpenAPI contract${check.operation ? ` for ${check.operation}` : ''}:`,
+        ...check.violations.map(violation => `  - ${violation}`)
+    ].join('\n');
+}
+
+function escapeToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function countParams(key: string): number {
+    return (key.match(/\{/g) || []).length;
+}
+
+function lowerCaseKeys(headers?: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers || {}).map(([name, value]) => [name.toLowerCase(), value]));
+}
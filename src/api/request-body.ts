@@ -0,0 +1,108 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A file in a multipart/form-data body
+ */
+export interface FilePart {
+    name: string;
+    mimeType: string;
+    buffer: Buffer;
+}
+
+export type FormFields = Record<string, string | number | boolean>;
+export type MultipartFields = Record<string, string | number | boolean | FilePart>;
+
+/**
+ * Body options passed to Playwright's fetch; exactly one of data, form or multipart is set
+ */
+export interface RequestPayload {
+    data?: unknown;
+    form?: FormFields;
+    multipart?: MultipartFields;
+    contentType?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+    '.json': 'application/json',
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.html': 'text/html',
+    '.xml': 'application/xml',
+    '.pdf': 'application/pdf',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.zip': 'application/zip'
+};
+
+/**
+ * Read a file for a multipart upload, guessing the mime type from its extension
+ */
+export function filePart(filePath: string, mimeType?: string, name: string = path.basename(filePath)): FilePart {
+    return {
+        name,
+        mimeType: mimeType || MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+        buffer: fs.readFileSync(filePath)
+    };
+}
+
+/**
+ * Decide how a body is sent. Objects and arrays (and strings holding JSON) are JSON;
+ * other strings and Buffers are sent raw, so JSON's content type is only used for JSON.
+ */
+export function toRequestPayload(
+    data: unknown,
+    options?: { form?: FormFields; multipart?: MultipartFields; contentType?: string }
+): RequestPayload {
+    const bodies = [data !== undefined, !!options?.form, !!options?.multipart].filter(Boolean).length;
+    if (bodies > 1) {
+        throw new Error('Pass only one of data, form or multipart');
+    }
+
+    // Playwright sets the form and multipart content types, including the boundary
+    if (options?.form) {
+        return { form: options.form };
+    }
+    if (options?.multipart) {
+        return { multipart: options.multipart };
+    }
+
+    if (data === undefined || data === null) {
+        return {};
+    }
+
+    if (Buffer.isBuffer(data)) {
+        return { data, contentType: options?.contentType || 'application/octet-stream' };
+    }
+
+    if (typeof data === 'string') {
+        return { data, contentType: options?.contentType || (isJson(data) ? 'application/json' : 'text/plain') };
+    }
+
+    return { data, contentType: options?.contentType || 'application/json' };
+}
+
+/**
+ * Hex digest of a buffer
+ */
+export function checksum(buffer: Buffer, algorithm: string = 'sha256'): string {
+    return crypto.createHash(algorithm).update(buffer).digest('hex');
+}
+
+function isJson(text: string): boolean {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+        return false;
+    }
+
+    try {
+        JSON.parse(trimmed);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,97 @@
+import { config } from '../../config/test.config';
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelay: number;
+    maxDelay: number;
+    // Fraction of each backoff delay that is randomized (0 = none, 1 = full jitter)
+    jitter: number;
+    statuses: number[];
+    // Substrings of error messages/codes that count as transient network errors
+    networkErrors: string[];
+    // Retry only GET/HEAD/OPTIONS/PUT/DELETE/TRACE unless turned off
+    idempotentOnly: boolean;
+    // Upper bound for waits requested by Retry-After
+    maxRetryAfter: number;
+}
+
+/**
+ * Outcome of one attempt of a request
+ */
+export interface AttemptOutcome {
+    attempt: number;
+    status?: number;
+    error?: string;
+    duration: number;
+    delay?: number;
+}
+
+export class RetryExhaustedError extends Error {
+    constructor(message: string, public correlationId: string, public attempts: AttemptOutcome[]) {
+        super(message);
+        this.name = 'RetryExhaustedError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, RetryExhaustedError);
+        }
+    }
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+
+/**
+ * Per-request overrides on top of config.api.retry; false disables retries
+ */
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy> | false): RetryPolicy {
+    if (overrides === false) {
+        return { ...config.api.retry, maxAttempts: 1 };
+    }
+    return { ...config.api.retry, ...overrides };
+}
+
+export function canRetryMethod(policy: RetryPolicy, method: string): boolean {
+    return !policy.idempotentOnly || IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+export function isRetryableError(policy: RetryPolicy, error: unknown): boolean {
+    const text = `${(error as NodeJS.ErrnoException)?.code || ''} ${(error as Error)?.message || error}`;
+    return policy.networkErrors.some(pattern => text.includes(pattern));
+}
+
+/**
+ * Wait before the next attempt: Retry-After when the server sent one, else exponential backoff with jitter
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfter?: string): number {
+    const requested = parseRetryAfter(retryAfter);
+    if (requested !== undefined) {
+        return Math.min(requested, policy.maxRetryAfter);
+    }
+
+    const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+    const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    return Math.round(backoff * (1 - jitter) + backoff * jitter * Math.random());
+}
+
+/**
+ * Retry-After in milliseconds, from delta-seconds or an HTTP date
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+    if (!value) return undefined;
+
+    if (/^\d+$/.test(value.trim())) {
+        return parseInt(value, 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * One line per attempt, e.g. "#1 503 (120ms), retried after 250ms"
+ */
+export function formatAttempts(attempts: AttemptOutcome[]): string {
+    return attempts
+        .map(outcome => `  #${outcome.attempt} ${outcome.status ?? outcome.error} (${outcome.duration}ms)` +
+            (outcome.delay !== undefined ? `, retried after ${outcome.delay}ms` : ''))
+        .join('\n');
+}
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+
+/**
+ * One failed schema rule at a JSON pointer in the validated document
+ */
+export interface SchemaViolation {
+    pointer: string;
+    keyword: string;
+    expected: string;
+    actual: string;
+}
+
+export class SchemaValidationError extends Error {
+    constructor(message: string, public violations: SchemaViolation[]) {
+        super(message);
+        this.name = 'SchemaValidationError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, SchemaValidationError);
+        }
+    }
+}
+
+/**
+ * Validates JSON documents against draft 2020-12 schema files.
+ * Every schema in the directory is registered under its file name, so schemas can $ref each other.
+ */
+export class SchemaValidator {
+    private ajv: Ajv2020;
+    private validators: Map<string, ValidateFunction> = new Map();
+
+    constructor(private schemaDir: string = config.api.schemaDir) {
+        this.ajv = new Ajv2020({ allErrors: true, strict: false });
+        addFormats(this.ajv);
+        this.loadSchemas();
+    }
+
+    /**
+     * Violations of the schema; empty when the document is valid
+     */
+    validate(data: unknown, schemaName: string): SchemaViolation[] {
+        const validateFn = this.getValidator(schemaName);
+
+        if (validateFn(data)) {
+            return [];
+        }
+
+        return toViolations(validateFn.errors || [], data);
+    }
+
+    /**
+     * Throw a SchemaValidationError listing every violation
+     */
+    assert(data: unknown, schemaName: string): void {
+        const violations = this.validate(data, schemaName);
+
+        if (violations.length > 0) {
+            throw new SchemaValidationError(formatViolations(schemaName, violations), violations);
+        }
+    }
+
+    private getValidator(schemaName: string): ValidateFunction {
+        let validateFn = this.validators.get(schemaName);
+
+        if (!validateFn) {
+            validateFn = this.ajv.getSchema(schemaName);
+            if (!validateFn) {
+                throw new Error(`Schema "${schemaName}" not found in ${this.schemaDir}`);
+            }
+            this.validators.set(schemaName, validateFn);
+        }
+
+        return validateFn;
+    }
+
+    private loadSchemas(): void {
+        if (!fs.existsSync(this.schemaDir)) {
+            logger.warn('Schema directory not found', { dir: this.schemaDir });
+            return;
+        }
+
+        for (const file of fs.readdirSync(this.schemaDir).filter(name => name.endsWith('.json'))) {
+            const schema = JSON.parse(fs.readFileSync(path.join(this.schemaDir, file), 'utf-8'));
+            // Register under the file name unless the schema declares its own $id
+            this.ajv.addSchema(schema, schema.$id ? undefined : file);
+            if (schema.$id && schema.$id !== file) {
+                this.ajv.addSchema({ $ref: schema.$id }, file);
+            }
+        }
+
+        logger.debug('JSON schemas loaded', { dir: this.schemaDir });
+    }
+}
+
+/**
+ * Human readable list of violations, one JSON pointer per line
+ */
+export function formatViolations(schemaName: string, violations: SchemaViolation[]): string {
+    return [
+        `Response does not match schema ${schemaName} (${violations.length} violation(s)):`,
+        ...violations.map(violation =>
+            `  ${violation.pointer || '/'}: expected ${violation.expected}, got ${violation.actual}`
+        )
+    ].join('\n');
+}
+
+/**
+ * Map Ajv errors to violations with the offending value resolved from the data
+ */
+export function toViolations(errors: ErrorObject[], data: unknown): SchemaViolation[] {
+    return errors.map(error => toViolation(error, data));
+}
+
+function toViolation(error: ErrorObject, data: unknown): SchemaViolation {
+    const params = error.params as Record<string, any>;
+    let pointer = error.instancePath;
+    const value = resolvePointer(data, pointer);
+    let expected: string;
+    let actual = describeValue(value);
+
+    switch (error.keyword) {
+        case 'required':
+            pointer = `${pointer}/${escapePointer(params.missingProperty)}`;
+            expected = 'required property';
+            actual = 'nothing';
+            break;
+        case 'additionalProperties':
+        case 'unevaluatedProperties':
+            pointer = `${pointer}/${escapePointer(params.additionalProperty || params.unevaluatedProperty)}`;
+            expected = 'no additional property';
+            actual = describeValue(resolvePointer(data, pointer));
+            break;
+        case 'type':
+            expected = `type ${params.type}`;
+            break;
+        case 'enum':
+            expected = `one of ${JSON.stringify(params.allowedValues)}`;
+            break;
+        case 'const':
+            expected = JSON.stringify(params.allowedValue);
+            break;
+        case 'format':
+            expected = `format "${params.format}"`;
+            break;
+        case 'pattern':
+            expected = `to match ${params.pattern}`;
+            break;
+        case 'minimum':
+        case 'maximum':
+        case 'exclusiveMinimum':
+        case 'exclusiveMaximum':
+            expected = `${params.comparison} ${params.limit}`;
+            break;
+        case 'minLength':
+        case 'maxLength':
+        case 'minItems':
+        case 'maxItems':
+        case 'minProperties':
+        case 'maxProperties':
+            expected = `${error.keyword} ${params.limit}`;
+            actual = `${describeValue(value)} (length ${sizeOf(value)})`;
+            break;
+        default:
+            expected = `${error.keyword} (${error.message})`;
+    }
+
+    return { pointer, keyword: error.keyword, expected, actual };
+}
+
+function resolvePointer(data: unknown, pointer: string): unknown {
+    if (!pointer) return data;
+
+    return pointer
+        .split('/')
+        .slice(1)
+        .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce<unknown>((current, token) =>
+            current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[token] : undefined,
+        data);
+}
+
+function escapePointer(token: string): string {
+    return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function describeValue(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    const type = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    const text = JSON.stringify(value);
+    return `${type} ${text.length > 80 ? `${text.substring(0, 80)}…` : text}`;
+}
+
+function sizeOf(value: unknown): number {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value !== null && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+}
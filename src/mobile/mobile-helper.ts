@@ -1,5 +1,6 @@
 import { Browser, BrowserContext, Page, devices } from '@playwright/test';
 import { logger } from '../utils/logger';
+import { Throttler, NetworkProfileName } from '../performance/throttler';
 
 export interface MobileDevice {
     name: string;
@@ -259,22 +260,10 @@ export class MobileHelper {
     /**
      * Emulate network conditions (for mobile testing)
      */
-    async emulateNetworkConditions(
-        page: Page,
-        profile: 'offline' | 'slow-3g' | 'fast-3g' | '4g' | 'wifi'
-    ): Promise<void> {
+    async emulateNetworkConditions(page: Page, profile: NetworkProfileName): Promise<void> {
         logger.info('Emulating network conditions', { profile });
 
-        const conditions = {
-            'offline': { offline: true, downloadThroughput: 0, uploadThroughput: 0, latency: 0 },
-            'slow-3g': { offline: false, downloadThroughput: 50 * 1024, uploadThroughput: 50 * 1024, latency: 2000 },
-            'fast-3g': { offline: false, downloadThroughput: 1.6 * 1024 * 1024, uploadThroughput: 750 * 1024, latency: 562.5 },
-            '4g': { offline: false, downloadThroughput: 4 * 1024 * 1024, uploadThroughput: 3 * 1024 * 1024, latency: 20 },
-            'wifi': { offline: false, downloadThroughput: 30 * 1024 * 1024, uploadThroughput: 15 * 1024 * 1024, latency: 2 }
-        };
-
-        const condition = conditions[profile];
-        await page.context().setOffline(condition.offline);
+        await new Throttler(page).apply(profile);
 
         logger.info('Network conditions set', { profile });
     }
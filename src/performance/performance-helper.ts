@@ -1,5 +1,21 @@
 import { Page } from '@playwright/test';
 import { logger } from '../utils/logger';
+import { config, getBrowserContextOptions } from '../../config/test.config';
+import { SampleStatistics, summarize } from './statistics';
+import {
+    PerformanceHistory,
+    PerformanceHistoryKey,
+    PerformanceBaseline,
+    PerformanceRegression
+} from './performance-history';
+import {
+    readWebVitals,
+    computeTotalBlockingTime,
+    computeTimeToInteractive,
+    computeCumulativeLayoutShift,
+    computeInteractionToNextPaint,
+    installWebVitalsObservers
+} from './web-vitals-observer';
 
 export interface PerformanceMetrics {
     domContentLoaded: number;
@@ -10,8 +26,17 @@ export interface PerformanceMetrics {
     timeToInteractive?: number;
     totalBlockingTime?: number;
     cumulativeLayoutShift?: number;
+    interactionToNextPaint?: number;
 }
 
+export type MetricStatistic = 'min' | 'median' | 'p75' | 'p95';
+
+export type RepeatedPerformanceMetrics = {
+    [K in keyof PerformanceMetrics]-?: SampleStatistics;
+};
+
+export type PerformanceFlow = (page: Page) => Promise<void>;
+
 export interface ResourceTiming {
     name: string;
     type: string;
@@ -28,8 +53,14 @@ export interface PerformanceBudget {
     timeToInteractive?: number;
     totalBlockingTime?: number;
     cumulativeLayoutShift?: number;
+    interactionToNextPaint?: number;
 }
 
+export const PERFORMANCE_BUDGET_METRICS: Array<keyof PerformanceBudget> = [
+    'domContentLoaded', 'loadComplete', 'firstContentfulPaint', 'largestContentfulPaint',
+    'timeToInteractive', 'totalBlockingTime', 'cumulativeLayoutShift', 'interactionToNextPaint'
+];
+
 export interface PerformanceReport {
     url: string;
     timestamp: string;
@@ -37,6 +68,21 @@ export interface PerformanceReport {
     resources: ResourceTiming[];
     budgetViolations: string[];
     score: number;
+    browser: string;
+    device: string;
+    baseline?: PerformanceBaseline;
+    regressions: PerformanceRegression[];
+}
+
+export class PerformanceRegressionError extends Error {
+    constructor(message: string, public regressions: PerformanceRegression[]) {
+        super(message);
+        this.name = 'PerformanceRegressionError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, PerformanceRegressionError);
+        }
+    }
 }
 
 /**
@@ -45,8 +91,20 @@ export interface PerformanceReport {
 export class PerformanceHelper {
     private metrics: Map<string, PerformanceMetrics> = new Map();
     private reports: PerformanceReport[] = [];
+    private repeated?: RepeatedPerformanceMetrics;
+    private history: PerformanceHistory;
+    private deviceName = 'desktop';
 
-    constructor(private page: Page) {}
+    constructor(private page: Page, history?: PerformanceHistory) {
+        this.history = history || new PerformanceHistory();
+    }
+
+    /**
+     * Set the device name used to key the performance history
+     */
+    setDeviceName(deviceName: string): void {
+        this.deviceName = deviceName;
+    }
 
     /**
      * Measure page load performance
@@ -55,48 +113,43 @@ export class PerformanceHelper {
         logger.info('Measuring page load performance');
 
         try {
-            const metrics = await this.page.evaluate(() => {
+            const timing = await this.page.evaluate(() => {
                 const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
                 const paint = performance.getEntriesByType('paint');
 
-                const firstPaint = paint.find(entry => entry.name === 'first-paint')?.startTime || 0;
-                const firstContentfulPaint = paint.find(entry => entry.name === 'first-contentful-paint')?.startTime || 0;
-
-                // Try to get Web Vitals
-                let lcp = 0;
-                let cls = 0;
-                let tti = 0;
-                let tbt = 0;
-
-                // LCP
-                try {
-                    const lcpEntry = performance.getEntriesByType('largest-contentful-paint')[0];
-                    lcp = lcpEntry ? lcpEntry.startTime : 0;
-                } catch (e) {}
-
-                // CLS (simplified calculation)
-                try {
-                    const layoutShifts = performance.getEntriesByType('layout-shift');
-                    cls = layoutShifts.reduce((sum: number, entry: any) => {
-                        if (!entry.hadRecentInput) {
-                            return sum + entry.value;
-                        }
-                        return sum;
-                    }, 0);
-                } catch (e) {}
-
                 return {
                     domContentLoaded: navigation.domContentLoadedEventEnd - navigation.fetchStart,
+                    domContentLoadedEnd: navigation.domContentLoadedEventEnd,
                     loadComplete: navigation.loadEventEnd - navigation.fetchStart,
-                    firstPaint,
-                    firstContentfulPaint,
-                    largestContentfulPaint: lcp,
-                    cumulativeLayoutShift: cls,
-                    timeToInteractive: tti,
-                    totalBlockingTime: tbt
+                    firstPaint: paint.find(entry => entry.name === 'first-paint')?.startTime || 0,
+                    firstContentfulPaint: paint.find(entry => entry.name === 'first-contentful-paint')?.startTime || 0
                 };
             });
 
+            // Web vitals come from the observers installed at context creation
+            const { snapshot } = await readWebVitals(this.page);
+            const timeToInteractive = computeTimeToInteractive(
+                snapshot.longTasks,
+                timing.firstContentfulPaint,
+                timing.domContentLoadedEnd
+            );
+
+            const metrics: PerformanceMetrics = {
+                domContentLoaded: timing.domContentLoaded,
+                loadComplete: timing.loadComplete,
+                firstPaint: timing.firstPaint,
+                firstContentfulPaint: timing.firstContentfulPaint,
+                largestContentfulPaint: snapshot.largestContentfulPaint,
+                cumulativeLayoutShift: computeCumulativeLayoutShift(snapshot.layoutShifts),
+                timeToInteractive,
+                totalBlockingTime: computeTotalBlockingTime(
+                    snapshot.longTasks,
+                    timing.firstContentfulPaint,
+                    timeToInteractive
+                ),
+                interactionToNextPaint: computeInteractionToNextPaint(snapshot.interactions)
+            };
+
             const url = this.page.url();
             this.metrics.set(url, metrics);
 
@@ -104,7 +157,10 @@ export class PerformanceHelper {
                 url,
                 domContentLoaded: `${metrics.domContentLoaded.toFixed(2)}ms`,
                 loadComplete: `${metrics.loadComplete.toFixed(2)}ms`,
-                firstContentfulPaint: `${metrics.firstContentfulPaint.toFixed(2)}ms`
+                firstContentfulPaint: `${metrics.firstContentfulPaint.toFixed(2)}ms`,
+                timeToInteractive: `${metrics.timeToInteractive!.toFixed(2)}ms`,
+                totalBlockingTime: `${metrics.totalBlockingTime!.toFixed(2)}ms`,
+                interactionToNextPaint: `${metrics.interactionToNextPaint!.toFixed(2)}ms`
             });
 
             return metrics;
@@ -114,6 +170,90 @@ export class PerformanceHelper {
         }
     }
 
+    /**
+     * Measure page load n times in fresh contexts, reloading the current URL or replaying a flow
+     */
+    async measureRepeated(runs: number, flow?: PerformanceFlow): Promise<RepeatedPerformanceMetrics> {
+        if (!Number.isInteger(runs) || runs < 1) {
+            throw new Error(`Repeated measurement needs a whole number of runs of at least 1, got ${runs}`);
+        }
+
+        logger.info('Measuring page load performance repeatedly', { runs, flow: Boolean(flow) });
+
+        const browser = this.page.context().browser();
+        if (!browser) {
+            throw new Error('Repeated measurement needs a browser to create fresh contexts');
+        }
+
+        const url = this.page.url();
+        const viewport = this.page.viewportSize();
+        // Carry cookies and storage over so authenticated pages load the same way
+        const storageState = await this.page.context().storageState();
+        const samples: PerformanceMetrics[] = [];
+
+        for (let run = 1; run <= runs; run++) {
+            const context = await browser.newContext({
+                ...getBrowserContextOptions(),
+                recordVideo: undefined,
+                viewport: viewport || config.viewport,
+                storageState
+            });
+
+            try {
+                await installWebVitalsObservers(context);
+                const page = await context.newPage();
+
+                if (flow) {
+                    await flow(page);
+                    await page.waitForLoadState('load');
+                } else {
+                    await page.goto(url, { waitUntil: 'load' });
+                }
+
+                samples.push(await new PerformanceHelper(page, this.history).measurePageLoad());
+                logger.debug('Repeated measurement run completed', { run, runs });
+            } catch (error) {
+                logger.error('Repeated measurement run failed', { run, error });
+                throw error;
+            } finally {
+                await context.close();
+            }
+        }
+
+        const metricNames = Object.keys(samples[0] || {}) as Array<keyof PerformanceMetrics>;
+        const repeated = {} as RepeatedPerformanceMetrics;
+        for (const metric of metricNames) {
+            repeated[metric] = summarize(samples.map(sample => sample[metric] ?? 0));
+        }
+        this.repeated = repeated;
+
+        logger.info('Repeated measurement completed', {
+            runs,
+            loadComplete: `median ${repeated.loadComplete?.median.toFixed(2)}ms, p95 ${repeated.loadComplete?.p95.toFixed(2)}ms`,
+            stddev: `${repeated.loadComplete?.stddev.toFixed(2)}ms`
+        });
+
+        return repeated;
+    }
+
+    /**
+     * Pick one statistic of every metric from the last repeated measurement
+     */
+    getRepeatedMetrics(statistic: MetricStatistic): PerformanceMetrics {
+        if (!this.repeated) {
+            throw new Error('No repeated measurement available; call measureRepeated() first');
+        }
+        if (!['min', 'median', 'p75', 'p95'].includes(statistic)) {
+            throw new Error(`Unknown statistic "${statistic}"; use min, median, p75 or p95`);
+        }
+
+        const metrics = {} as PerformanceMetrics;
+        for (const [metric, stats] of Object.entries(this.repeated) as Array<[keyof PerformanceMetrics, SampleStatistics]>) {
+            metrics[metric] = stats[statistic];
+        }
+        return metrics;
+    }
+
     /**
      * Measure API response time
      */
@@ -240,12 +380,12 @@ export class PerformanceHelper {
     }
 
     /**
-     * Check performance budget
+     * Check performance budget, against a fresh sample or a statistic of the last repeated measurement
      */
-    async checkBudget(budget: PerformanceBudget): Promise<string[]> {
-        logger.info('Checking performance budget');
+    async checkBudget(budget: PerformanceBudget, statistic?: MetricStatistic): Promise<string[]> {
+        logger.info('Checking performance budget', { statistic: statistic || 'single sample' });
 
-        const metrics = await this.measurePageLoad();
+        const metrics = statistic ? this.getRepeatedMetrics(statistic) : await this.measurePageLoad();
         const violations: string[] = [];
 
         if (budget.domContentLoaded && metrics.domContentLoaded > budget.domContentLoaded) {
@@ -280,16 +420,39 @@ export class PerformanceHelper {
             );
         }
 
-        if (violations.length > 0) {
+        if (budget.timeToInteractive && metrics.timeToInteractive &&
+            metrics.timeToInteractive > budget.timeToInteractive) {
+            violations.push(
+                `Time to Interactive exceeded budget: ${metrics.timeToInteractive.toFixed(2)}ms > ${budget.timeToInteractive}ms`
+            );
+        }
+
+        if (budget.totalBlockingTime && metrics.totalBlockingTime &&
+            metrics.totalBlockingTime > budget.totalBlockingTime) {
+            violations.push(
+                `Total Blocking Time exceeded budget: ${metrics.totalBlockingTime.toFixed(2)}ms > ${budget.totalBlockingTime}ms`
+            );
+        }
+
+        if (budget.interactionToNextPaint && metrics.interactionToNextPaint &&
+            metrics.interactionToNextPaint > budget.interactionToNextPaint) {
+            violations.push(
+                `Interaction to Next Paint exceeded budget: ${metrics.interactionToNextPaint.toFixed(2)}ms > ${budget.interactionToNextPaint}ms`
+            );
+        }
+
+        const labelled = statistic ? violations.map(v => `${v} (${statistic})`) : violations;
+
+        if (labelled.length > 0) {
             logger.warn('Performance budget violations detected', { 
-                violations: violations.length 
+                violations: labelled.length 
             });
-            violations.forEach(v => logger.warn(v));
+            labelled.forEach(v => logger.warn(v));
         } else {
             logger.info('All performance budgets met');
         }
 
-        return violations;
+        return labelled;
     }
 
     /**
@@ -341,13 +504,23 @@ export class PerformanceHelper {
         const budgetViolations = await this.checkBudget(budget);
         const score = this.calculateScore(metrics);
 
+        // Compare against the rolling baseline before this run joins the history
+        const key = this.getHistoryKey(url);
+        const baseline = this.history.getBaseline(key);
+        const regressions = baseline ? this.history.findRegressions(metrics, baseline) : [];
+        this.history.record(key, metrics);
+
         const report: PerformanceReport = {
             url,
             timestamp: new Date().toISOString(),
             metrics,
             resources,
             budgetViolations,
-            score
+            score,
+            browser: key.browser,
+            device: key.device,
+            baseline,
+            regressions
         };
 
         this.reports.push(report);
@@ -355,12 +528,70 @@ export class PerformanceHelper {
         logger.info('Performance report generated', { 
             url, 
             score,
-            violations: budgetViolations.length 
+            violations: budgetViolations.length,
+            regressions: regressions.length
         });
 
+        if (regressions.length > 0) {
+            this.reportRegressions(regressions, config.performance.regressionAction);
+        }
+
         return report;
     }
 
+    /**
+     * Fail when the latest report regressed against its baseline
+     */
+    assertNoRegressions(): void {
+        const report = this.reports[this.reports.length - 1];
+
+        if (!report) {
+            throw new Error('No performance report generated yet');
+        }
+
+        if (!report.baseline) {
+            logger.warn('Not enough performance history for a baseline yet', {
+                url: report.url,
+                minRuns: config.performance.minBaselineRuns
+            });
+            return;
+        }
+
+        this.reportRegressions(report.regressions, 'fail');
+    }
+
+    /**
+     * Log regressions and throw when the action is 'fail'
+     */
+    private reportRegressions(regressions: PerformanceRegression[], action: 'fail' | 'warn'): void {
+        if (regressions.length === 0) {
+            return;
+        }
+
+        const details = regressions.map(r =>
+            `${r.metric}: ${r.current.toFixed(2)} vs baseline ${r.baseline.toFixed(2)} (+${r.changePercent.toFixed(1)}%)`
+        );
+        details.forEach(detail => logger.warn(`Performance regression: ${detail}`));
+
+        if (action === 'fail') {
+            throw new PerformanceRegressionError(
+                `Performance regressed on ${regressions.length} metric(s):\n${details.join('\n')}`,
+                regressions
+            );
+        }
+    }
+
+    /**
+     * History key for a URL in the current browser and device
+     */
+    private getHistoryKey(url: string): PerformanceHistoryKey {
+        return {
+            url,
+            browser: this.page.context().browser()?.browserType().name() || config.browser,
+            device: this.deviceName
+        };
+    }
+
     /**
      * Get all metrics
      */
@@ -381,6 +612,7 @@ export class PerformanceHelper {
     clearMetrics(): void {
         this.metrics.clear();
         this.reports = [];
+        this.repeated = undefined;
         logger.debug('Performance metrics cleared');
     }
 
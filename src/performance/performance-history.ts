@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+import { median, percentile } from './statistics';
+import type { PerformanceMetrics } from './performance-helper';
+
+export interface PerformanceHistoryKey {
+    url: string;
+    browser: string;
+    device: string;
+}
+
+export interface PerformanceHistoryRun {
+    timestamp: string;
+    metrics: PerformanceMetrics;
+}
+
+export interface PerformanceHistoryFile extends PerformanceHistoryKey {
+    runs: PerformanceHistoryRun[];
+}
+
+export interface PerformanceBaseline {
+    statistic: 'median' | 'p75';
+    runs: number;
+    metrics: Partial<Record<keyof PerformanceMetrics, number>>;
+}
+
+export interface PerformanceRegression {
+    metric: keyof PerformanceMetrics;
+    current: number;
+    baseline: number;
+    changePercent: number;
+}
+
+export interface PerformanceTrend extends PerformanceHistoryKey {
+    runs: number;
+    metric: keyof PerformanceMetrics;
+    values: number[];
+    latest: number;
+    baseline: number;
+    statistic: 'median' | 'p75';
+    changePercent: number;
+}
+
+export interface PerformanceHistoryOptions {
+    dir?: string;
+    window?: number;
+    statistic?: 'median' | 'p75';
+    regressionThreshold?: number;
+    minRuns?: number;
+    maxRuns?: number;
+}
+
+/**
+ * Local history store for performance reports, keyed by URL, browser and device
+ */
+export class PerformanceHistory {
+    private dir: string;
+    private window: number;
+    private statistic: 'median' | 'p75';
+    private regressionThreshold: number;
+    private minRuns: number;
+    private maxRuns: number;
+
+    constructor(options?: PerformanceHistoryOptions) {
+        this.dir = path.resolve(options?.dir || config.performance.historyDir);
+        this.window = options?.window ?? config.performance.baselineWindow;
+        this.statistic = options?.statistic || config.performance.baselineStatistic;
+        this.regressionThreshold = options?.regressionThreshold ?? config.performance.regressionThreshold;
+        this.minRuns = options?.minRuns ?? config.performance.minBaselineRuns;
+        this.maxRuns = options?.maxRuns ?? 100;
+    }
+
+    /**
+     * Append a measurement to the history for its key
+     */
+    record(key: PerformanceHistoryKey, metrics: PerformanceMetrics): void {
+        const history = this.load(key);
+
+        history.runs.push({ timestamp: new Date().toISOString(), metrics });
+        history.runs = history.runs.slice(-this.maxRuns);
+
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.writeFileSync(this.getFilePath(key), JSON.stringify(history, null, 2));
+
+        logger.debug('Performance run recorded', { ...key, runs: history.runs.length });
+    }
+
+    /**
+     * Load history for a key (empty history if none recorded yet)
+     */
+    load(key: PerformanceHistoryKey): PerformanceHistoryFile {
+        const filePath = this.getFilePath(key);
+
+        if (!fs.existsSync(filePath)) {
+            return { ...key, runs: [] };
+        }
+
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+
+    /**
+     * Rolling baseline over the last N runs, or undefined when there are too few runs
+     */
+    getBaseline(key: PerformanceHistoryKey): PerformanceBaseline | undefined {
+        const runs = this.load(key).runs.slice(-this.window);
+
+        if (runs.length < this.minRuns) {
+            return undefined;
+        }
+
+        const metrics: PerformanceBaseline['metrics'] = {};
+        for (const metric of this.getMetricNames(runs)) {
+            const values = runs
+                .map(run => run.metrics[metric])
+                .filter((value): value is number => typeof value === 'number');
+
+            metrics[metric] = this.aggregate(values);
+        }
+
+        return { statistic: this.statistic, runs: runs.length, metrics };
+    }
+
+    /**
+     * Compare a measurement with the baseline and list metrics past the threshold
+     */
+    findRegressions(metrics: PerformanceMetrics, baseline: PerformanceBaseline): PerformanceRegression[] {
+        const regressions: PerformanceRegression[] = [];
+
+        for (const [metric, baselineValue] of Object.entries(baseline.metrics) as Array<[keyof PerformanceMetrics, number]>) {
+            const current = metrics[metric];
+
+            if (typeof current !== 'number' || !baselineValue) {
+                continue;
+            }
+
+            const changePercent = ((current - baselineValue) / baselineValue) * 100;
+            if (changePercent > this.regressionThreshold) {
+                regressions.push({ metric, current, baseline: baselineValue, changePercent });
+            }
+        }
+
+        return regressions;
+    }
+
+    /**
+     * Trend of every stored key for the given metrics
+     */
+    getTrends(metricNames: Array<keyof PerformanceMetrics> = ['loadComplete', 'largestContentfulPaint']): PerformanceTrend[] {
+        if (!fs.existsSync(this.dir)) {
+            return [];
+        }
+
+        const trends: PerformanceTrend[] = [];
+
+        for (const file of fs.readdirSync(this.dir).filter(name => name.endsWith('.json'))) {
+            const history: PerformanceHistoryFile = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8'));
+            if (history.runs.length === 0) continue;
+
+            for (const metric of metricNames) {
+                const values = history.runs
+                    .map(run => run.metrics[metric])
+                    .filter((value): value is number => typeof value === 'number');
+                if (values.length === 0) continue;
+
+                const latest = values[values.length - 1];
+                const previous = values.slice(-this.window - 1, -1);
+                const baseline = previous.length > 0 ? this.aggregate(previous) : latest;
+
+                trends.push({
+                    url: history.url,
+                    browser: history.browser,
+                    device: history.device,
+                    runs: history.runs.length,
+                    metric,
+                    values: values.slice(-this.window),
+                    latest,
+                    baseline,
+                    statistic: this.statistic,
+                    changePercent: baseline ? ((latest - baseline) / baseline) * 100 : 0
+                });
+            }
+        }
+
+        return trends;
+    }
+
+    /**
+     * Baseline value of a metric's samples using the configured statistic
+     */
+    private aggregate(values: number[]): number {
+        return this.statistic === 'p75' ? percentile(values, 75) : median(values);
+    }
+
+    private getMetricNames(runs: PerformanceHistoryRun[]): Array<keyof PerformanceMetrics> {
+        const names = new Set<keyof PerformanceMetrics>();
+        runs.forEach(run => (Object.keys(run.metrics) as Array<keyof PerformanceMetrics>).forEach(name => names.add(name)));
+        return [...names];
+    }
+
+    private getFilePath(key: PerformanceHistoryKey): string {
+        const url = key.url.replace(/^https?:\/\//, '').replace(/[?#].*$/, '');
+        const fileName = `${url}__${key.browser}__${key.device}`
+            .replace(/[^a-z0-9._-]/gi, '_')
+            .replace(/_+/g, '_');
+        return path.join(this.dir, `${fileName}.json`);
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Small numeric helpers for performance samples
+ */
+
+/**
+ * Percentile using linear interpolation between closest ranks (p in 0-100)
+ */
+export function percentile(values: number[], p: number): number {
+    if (values.length === 0) {
+        return 0;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Median of the given values
+ */
+export function median(values: number[]): number {
+    return percentile(values, 50);
+}
+
+/**
+ * Population standard deviation of the given values
+ */
+export function standardDeviation(values: number[]): number {
+    if (values.length === 0) {
+        return 0;
+    }
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+    return Math.sqrt(variance);
+}
+
+export interface SampleStatistics {
+    samples: number[];
+    min: number;
+    median: number;
+    p75: number;
+    p95: number;
+    stddev: number;
+}
+
+/**
+ * Summary statistics for a set of samples
+ */
+export function summarize(values: number[]): SampleStatistics {
+    return {
+        samples: values,
+        min: values.length > 0 ? Math.min(...values) : 0,
+        median: median(values),
+        p75: percentile(values, 75),
+        p95: percentile(values, 95),
+        stddev: standardDeviation(values)
+    };
+}
@@ -0,0 +1,144 @@
+import { CDPSession, Page } from '@playwright/test';
+import { logger } from '../utils/logger';
+
+/**
+ * Network conditions as accepted by CDP Network.emulateNetworkConditions (throughput in bytes/s)
+ */
+export interface NetworkConditions {
+    offline: boolean;
+    latency: number;
+    downloadThroughput: number;
+    uploadThroughput: number;
+}
+
+export interface ThrottlingProfile {
+    network?: NetworkConditions;
+    cpuSlowdown?: number;
+}
+
+export type NetworkProfileName = 'offline' | 'slow-3g' | 'fast-3g' | '4g' | 'cable' | 'wifi';
+export type CpuProfileName = 'mid-tier-mobile' | 'low-end-mobile';
+export type ThrottlingProfileName = NetworkProfileName | CpuProfileName;
+
+// Kbit/s to bytes/s
+const kbps = (value: number) => (value * 1024) / 8;
+
+/**
+ * Named throttling profiles (network values follow the DevTools and WebPageTest presets)
+ */
+export const THROTTLING_PROFILES: Record<ThrottlingProfileName, ThrottlingProfile> = {
+    'offline': { network: { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 } },
+    'slow-3g': { network: { offline: false, latency: 2000, downloadThroughput: kbps(500), uploadThroughput: kbps(500) } },
+    'fast-3g': { network: { offline: false, latency: 562.5, downloadThroughput: kbps(1600), uploadThroughput: kbps(750) } },
+    '4g': { network: { offline: false, latency: 170, downloadThroughput: kbps(9000), uploadThroughput: kbps(9000) } },
+    'cable': { network: { offline: false, latency: 28, downloadThroughput: kbps(5000), uploadThroughput: kbps(1000) } },
+    'wifi': { network: { offline: false, latency: 2, downloadThroughput: kbps(30000), uploadThroughput: kbps(15000) } },
+    'mid-tier-mobile': { cpuSlowdown: 4 },
+    'low-end-mobile': { cpuSlowdown: 6 }
+};
+
+/**
+ * Real network and CPU throttling through the Chrome DevTools Protocol
+ */
+export class Throttler {
+    private session?: CDPSession;
+
+    constructor(private page: Page) { }
+
+    /**
+     * CDP throttling is only available on Chromium
+     */
+    isSupported(): boolean {
+        return this.page.context().browser()?.browserType().name() === 'chromium';
+    }
+
+    /**
+     * Apply a named or custom profile
+     */
+    async apply(profile: ThrottlingProfileName | ThrottlingProfile): Promise<void> {
+        const resolved = typeof profile === 'string' ? THROTTLING_PROFILES[profile] : profile;
+
+        if (!resolved) {
+            throw new Error(
+                `Unknown throttling profile "${profile}". Available: ${Object.keys(THROTTLING_PROFILES).join(', ')}`
+            );
+        }
+
+        logger.info('Applying throttling profile', { profile: typeof profile === 'string' ? profile : 'custom' });
+
+        if (resolved.network) {
+            await this.emulateNetwork(resolved.network);
+        }
+        if (resolved.cpuSlowdown) {
+            await this.setCpuThrottlingRate(resolved.cpuSlowdown);
+        }
+    }
+
+    /**
+     * Emulate latency, bandwidth and offline state
+     */
+    async emulateNetwork(conditions: NetworkConditions): Promise<void> {
+        if (!this.isSupported()) {
+            logger.warn('Network throttling requires Chromium; only the offline state is emulated', { conditions });
+            await this.page.context().setOffline(conditions.offline);
+            return;
+        }
+
+        const session = await this.getSession();
+        await session.send('Network.enable');
+        await session.send('Network.emulateNetworkConditions', conditions);
+
+        logger.info('Network conditions emulated', {
+            offline: conditions.offline,
+            latency: `${conditions.latency}ms`,
+            download: `${Math.round((conditions.downloadThroughput * 8) / 1024)}Kbps`,
+            upload: `${Math.round((conditions.uploadThroughput * 8) / 1024)}Kbps`
+        });
+    }
+
+    /**
+     * Slow down the CPU by the given factor (1 = no throttling)
+     */
+    async setCpuThrottlingRate(rate: number): Promise<void> {
+        if (!this.isSupported()) {
+            logger.warn('CPU throttling requires Chromium; ignoring', { rate });
+            return;
+        }
+
+        const session = await this.getSession();
+        await session.send('Emulation.setCPUThrottlingRate', { rate });
+
+        logger.info('CPU throttling applied', { rate: `${rate}x` });
+    }
+
+    /**
+     * Remove all network and CPU throttling
+     */
+    async reset(): Promise<void> {
+        if (!this.isSupported()) {
+            await this.page.context().setOffline(false);
+            return;
+        }
+
+        if (!this.session) {
+            return;
+        }
+
+        await this.session.send('Network.emulateNetworkConditions', {
+            offline: false,
+            latency: 0,
+            downloadThroughput: -1,
+            uploadThroughput: -1
+        });
+        await this.session.send('Emulation.setCPUThrottlingRate', { rate: 1 });
+
+        logger.info('Throttling reset');
+    }
+
+    private async getSession(): Promise<CDPSession> {
+        if (!this.session) {
+            this.session = await this.page.context().newCDPSession(this.page);
+        }
+        return this.session;
+    }
+}
@@ -0,0 +1,182 @@
+import { BrowserContext, Page } from '@playwright/test';
+import { logger } from '../utils/logger';
+
+/**
+ * Raw entries collected in the page by the observers
+ */
+export interface WebVitalsSnapshot {
+    supported: string[];
+    longTasks: Array<{ startTime: number; duration: number }>;
+    largestContentfulPaint: number;
+    layoutShifts: Array<{ startTime: number; value: number }>;
+    interactions: Record<string, number>;
+    installedAt: number;
+}
+
+/**
+ * Register buffered PerformanceObservers in the page.
+ * Runs as an init script, so it must be self-contained and idempotent.
+ */
+export function webVitalsObserverScript(): void {
+    const win = window as any;
+    if (win.__webVitals) {
+        return;
+    }
+
+    const state = {
+        supported: [] as string[],
+        longTasks: [] as Array<{ startTime: number; duration: number }>,
+        largestContentfulPaint: 0,
+        layoutShifts: [] as Array<{ startTime: number; value: number }>,
+        interactions: {} as Record<string, number>,
+        installedAt: performance.now()
+    };
+    win.__webVitals = state;
+
+    const observe = (type: string, callback: (entries: any[]) => void, extra: Record<string, unknown> = {}) => {
+        try {
+            const observer = new PerformanceObserver(list => callback(list.getEntries()));
+            observer.observe({ type, buffered: true, ...extra } as PerformanceObserverInit);
+            state.supported.push(type);
+        } catch {
+            // Entry type not supported by this browser
+        }
+    };
+
+    observe('longtask', entries => {
+        entries.forEach(entry => state.longTasks.push({ startTime: entry.startTime, duration: entry.duration }));
+    });
+
+    observe('largest-contentful-paint', entries => {
+        const last = entries[entries.length - 1];
+        if (last) {
+            state.largestContentfulPaint = last.renderTime || last.loadTime || last.startTime;
+        }
+    });
+
+    observe('layout-shift', entries => {
+        entries
+            .filter(entry => !entry.hadRecentInput)
+            .forEach(entry => state.layoutShifts.push({ startTime: entry.startTime, value: entry.value }));
+    });
+
+    // Event timing: keep the longest event per user interaction
+    const recordInteraction = (entries: any[]) => {
+        entries
+            .filter(entry => entry.interactionId)
+            .forEach(entry => {
+                const key = String(entry.interactionId);
+                state.interactions[key] = Math.max(state.interactions[key] || 0, entry.duration);
+            });
+    };
+    observe('event', recordInteraction, { durationThreshold: 16 });
+    observe('first-input', recordInteraction);
+}
+
+// Contexts that already run the observer script
+const instrumentedContexts: WeakSet<BrowserContext> = new WeakSet();
+
+/**
+ * Install the observers for every page of a context. Call before the first navigation.
+ */
+export async function installWebVitalsObservers(context: BrowserContext): Promise<void> {
+    if (instrumentedContexts.has(context)) {
+        return;
+    }
+
+    await context.addInitScript(webVitalsObserverScript);
+    instrumentedContexts.add(context);
+    logger.debug('Web vitals observers installed');
+}
+
+/**
+ * Read the collected entries, registering observers late if the init script is missing
+ */
+export async function readWebVitals(page: Page): Promise<{ snapshot: WebVitalsSnapshot; lateInstall: boolean }> {
+    const installed = await page.evaluate(() => Boolean((window as any).__webVitals));
+
+    if (!installed) {
+        logger.warn('Web vitals observers were not installed at context creation; TBT and TTI will be incomplete');
+        await page.evaluate(webVitalsObserverScript);
+    }
+
+    const snapshot = await page.evaluate(() => (window as any).__webVitals as WebVitalsSnapshot);
+    return { snapshot, lateInstall: !installed };
+}
+
+/**
+ * Total Blocking Time: blocking portion of long tasks between FCP and TTI
+ */
+export function computeTotalBlockingTime(
+    longTasks: WebVitalsSnapshot['longTasks'],
+    firstContentfulPaint: number,
+    timeToInteractive: number
+): number {
+    return longTasks.reduce((total, task) => {
+        const start = Math.max(task.startTime, firstContentfulPaint);
+        const end = Math.min(task.startTime + task.duration, timeToInteractive);
+        // Only the part of a task beyond 50ms counts as blocking
+        return total + Math.max(0, end - start - 50);
+    }, 0);
+}
+
+/**
+ * Time to Interactive: end of the last long task before a 5s quiet window after FCP
+ */
+export function computeTimeToInteractive(
+    longTasks: WebVitalsSnapshot['longTasks'],
+    firstContentfulPaint: number,
+    domContentLoaded: number,
+    quietWindow: number = 5000
+): number {
+    const tasks = longTasks
+        .filter(task => task.startTime + task.duration > firstContentfulPaint)
+        .sort((a, b) => a.startTime - b.startTime);
+
+    let interactive = Math.max(firstContentfulPaint, domContentLoaded);
+
+    for (const task of tasks) {
+        if (task.startTime - interactive >= quietWindow) {
+            break;
+        }
+        interactive = Math.max(interactive, task.startTime + task.duration);
+    }
+
+    return interactive;
+}
+
+/**
+ * Cumulative Layout Shift: largest session window (1s gap, 5s max)
+ */
+export function computeCumulativeLayoutShift(layoutShifts: WebVitalsSnapshot['layoutShifts']): number {
+    let maxSession = 0;
+    let session = 0;
+    let sessionStart = 0;
+    let previous = 0;
+
+    for (const shift of [...layoutShifts].sort((a, b) => a.startTime - b.startTime)) {
+        if (session > 0 && (shift.startTime - previous > 1000 || shift.startTime - sessionStart > 5000)) {
+            session = 0;
+        }
+        if (session === 0) {
+            sessionStart = shift.startTime;
+        }
+        session += shift.value;
+        previous = shift.startTime;
+        maxSession = Math.max(maxSession, session);
+    }
+
+    return maxSession;
+}
+
+/**
+ * Interaction to Next Paint: 98th percentile of interaction latencies
+ */
+export function computeInteractionToNextPaint(interactions: WebVitalsSnapshot['interactions']): number {
+    const durations = Object.values(interactions).sort((a, b) => b - a);
+    if (durations.length === 0) {
+        return 0;
+    }
+    // Skip one outlier for every 50 interactions
+    return durations[Math.min(Math.floor(durations.length / 50), durations.length - 1)];
+}
@@ -0,0 +1,88 @@
+import { logger } from './logger';
+
+/**
+ * A cleanup action that threw
+ */
+export interface CleanupFailure {
+    description: string;
+    error: string;
+}
+
+export class CleanupError extends Error {
+    constructor(message: string, public failures: CleanupFailure[]) {
+        super(message);
+        this.name = 'CleanupError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, CleanupError);
+        }
+    }
+}
+
+interface CleanupAction {
+    description: string;
+    action: () => Promise<void> | void;
+}
+
+/**
+ * Teardown actions for data a scenario created, run newest first so
+ * dependent resources (an order) go before what they depend on (its user)
+ */
+export class CleanupRegistry {
+    private actions: CleanupAction[] = [];
+
+    register(description: string, action: () => Promise<void> | void): void {
+        this.actions.push({ description, action });
+        logger.debug('Cleanup registered', { description });
+    }
+
+    get size(): number {
+        return this.actions.length;
+    }
+
+    /**
+     * Descriptions of pending cleanups, in the order they will run
+     */
+    getPending(): string[] {
+        return this.actions.map(action => action.description).reverse();
+    }
+
+    /**
+     * Run every cleanup in reverse order. A failing cleanup does not stop the others;
+     * failures are returned rather than thrown so callers decide how to report them.
+     */
+    async runAll(): Promise<CleanupFailure[]> {
+        const failures: CleanupFailure[] = [];
+
+        while (this.actions.length > 0) {
+            const { description, action } = this.actions.pop()!;
+            try {
+                await action();
+                logger.debug('Cleanup done', { description });
+            } catch (error) {
+                const message = (error as Error)?.message?.split('\n')[0] || String(error);
+                logger.error('Cleanup failed', { description, error: message });
+                failures.push({ description, error: message });
+            }
+        }
+
+        return failures;
+    }
+
+    /**
+     * Drop pending cleanups without running them
+     */
+    clear(): void {
+        this.actions = [];
+    }
+}
+
+/**
+ * "2 cleanup(s) failed:" followed by one line per failure
+ */
+export function formatCleanupFailures(failures: CleanupFailure[]): string {
+    return [
+        `${failures.length} cleanup(s) failed:`,
+        ...failures.map(failure => `  ${failure.description}: ${failure.error}`)
+    ].join('\n');
+}
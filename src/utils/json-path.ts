@@ -0,0 +1,33 @@
+import { JSONPath } from 'jsonpath-plus';
+
+/**
+ * All values matched by a JSONPath expression (e.g. `$.items[*].id`)
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+    return JSONPath({ path, json: data as object, wrap: true }) as unknown[];
+}
+
+/**
+ * The single value at a JSONPath; throws when nothing matches
+ */
+export function extractJsonPath(data: unknown, path: string): unknown {
+    const matches = queryJsonPath(data, path);
+
+    if (matches.length === 0) {
+        throw new Error(`JSONPath ${path} matched nothing in ${truncate(JSON.stringify(data))}`);
+    }
+
+    // A path with wildcards or filters yields a list; a plain path yields its value
+    return matches.length === 1 && !isMultiMatchPath(path) ? matches[0] : matches;
+}
+
+/**
+ * Whether a JSONPath can match several values (wildcards, filters, recursion, unions, slices)
+ */
+export function isMultiMatchPath(path: string): boolean {
+    return /[*?]|\.\.|,|:/.test(path);
+}
+
+function truncate(text: string = '', max: number = 200): string {
+    return text.length > max ? `${text.substring(0, max)}…` : text;
+}
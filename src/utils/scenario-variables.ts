@@ -0,0 +1,104 @@
+import { logger } from './logger';
+
+export type VariableValue = string | number | boolean | null | VariableValue[] | { [key: string]: VariableValue };
+
+export class VariableError extends Error {
+    constructor(message: string, public variable: string) {
+        super(message);
+        this.name = 'VariableError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, VariableError);
+        }
+    }
+}
+
+const PLACEHOLDER = /\$\{([\w.-]+)\}/g;
+
+/**
+ * Values saved during a scenario (ids, tokens, headers) and `${name}` interpolation.
+ * Declare known names for typed access: new ScenarioVariables<{ userId: number }>()
+ */
+export class ScenarioVariables<T extends Record<string, VariableValue> = Record<string, VariableValue>> {
+    private values: Map<string, VariableValue> = new Map();
+
+    set<K extends keyof T & string>(name: K, value: T[K]): void {
+        this.values.set(name, value);
+        logger.debug('Scenario variable set', { name, value });
+    }
+
+    get<K extends keyof T & string>(name: K): T[K] {
+        if (!this.values.has(name)) {
+            throw new VariableError(`Unknown variable "${name}"${this.describeKnown()}`, name);
+        }
+        return this.values.get(name) as T[K];
+    }
+
+    has(name: string): boolean {
+        return this.values.has(name);
+    }
+
+    /**
+     * Snapshot of all variables
+     */
+    all(): Record<string, VariableValue> {
+        return Object.fromEntries(this.values);
+    }
+
+    clear(): void {
+        this.values.clear();
+    }
+
+    /**
+     * Replace `${name}` (or `${name.field}` for objects) in text
+     */
+    interpolate(text: string): string {
+        return text.replace(PLACEHOLDER, (_match, reference: string) => {
+            const value = this.resolve(reference);
+            return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+        });
+    }
+
+    /**
+     * Interpolate every string in a value; a string that is only a placeholder keeps the variable's type
+     */
+    interpolateDeep<V>(value: V): V {
+        if (typeof value === 'string') {
+            const whole = value.match(/^\$\{([\w.-]+)\}$/);
+            return (whole ? this.resolve(whole[1]) : this.interpolate(value)) as V;
+        }
+
+        if (Array.isArray(value)) {
+            return value.map(item => this.interpolateDeep(item)) as V;
+        }
+
+        if (value !== null && typeof value === 'object') {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, this.interpolateDeep(item)])
+            ) as V;
+        }
+
+        return value;
+    }
+
+    private resolve(reference: string): VariableValue {
+        const [name, ...fields] = reference.split('.');
+        let value: VariableValue | undefined = this.get(name as keyof T & string);
+
+        for (const field of fields) {
+            if (value === null || typeof value !== 'object') {
+                throw new VariableError(`Cannot read "${field}" of variable "${reference}"`, name);
+            }
+            value = (value as Record<string, VariableValue>)[field];
+        }
+
+        if (value === undefined) {
+            throw new VariableError(`Variable "${reference}" is undefined`, name);
+        }
+        return value;
+    }
+
+    private describeKnown(): string {
+        return this.values.size > 0 ? ` (known: ${[...this.values.keys()].join(', ')})` : ' (no variables saved yet)';
+    }
+}
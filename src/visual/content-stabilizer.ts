@@ -0,0 +1,175 @@
+import { Page } from '@playwright/test';
+import { logger } from '../utils/logger';
+
+export interface VisualStabilizeOptions {
+    freezeTime?: boolean | string;
+    waitForFonts?: boolean;
+    hideCaret?: boolean;
+    replaceText?: Record<string, string>;
+    waitForLayout?: boolean | { stableFrames?: number; timeout?: number };
+}
+
+// Default instant used when freezeTime is enabled without an explicit date
+const DEFAULT_FROZEN_TIME = '2024-01-01T12:00:00.000Z';
+
+/**
+ * Prepares a page for deterministic screenshots and restores it afterwards
+ */
+export class ContentStabilizer {
+    private clockInstalled = false;
+
+    constructor(private page: Page) { }
+
+    /**
+     * Apply the stabilization steps, returning a function that undoes them
+     */
+    async apply(options: VisualStabilizeOptions): Promise<() => Promise<void>> {
+        const restoreSteps: Array<() => Promise<void>> = [];
+
+        if (options.waitForFonts) {
+            await this.waitForFonts();
+        }
+
+        if (options.replaceText && Object.keys(options.replaceText).length > 0) {
+            restoreSteps.push(await this.replaceText(options.replaceText));
+        }
+
+        if (options.waitForLayout) {
+            await this.waitForLayout(typeof options.waitForLayout === 'object' ? options.waitForLayout : {});
+        }
+
+        // Last, since a paused clock also stops the animation frames used above
+        if (options.freezeTime) {
+            restoreSteps.push(await this.freezeTime(options.freezeTime));
+        }
+
+        return async () => {
+            for (const restore of restoreSteps.reverse()) {
+                await restore();
+            }
+        };
+    }
+
+    /**
+     * Freeze Date and timers at a fixed instant.
+     * Playwright cannot uninstall a fake clock, so the page keeps it for the rest of the scenario;
+     * restoring moves it back to the real time and lets timers run again.
+     */
+    async freezeTime(time: boolean | string): Promise<() => Promise<void>> {
+        const instant = typeof time === 'string' ? time : DEFAULT_FROZEN_TIME;
+
+        if (!this.clockInstalled) {
+            await this.page.clock.install({ time: instant });
+            this.clockInstalled = true;
+        }
+        await this.page.clock.pauseAt(instant);
+
+        logger.debug('Page clock frozen', { time: instant });
+
+        return async () => {
+            await this.page.clock.setSystemTime(new Date());
+            await this.page.clock.resume();
+            logger.debug('Page clock resumed at the real time');
+        };
+    }
+
+    /**
+     * Wait until web fonts have finished loading
+     */
+    async waitForFonts(): Promise<void> {
+        await this.page.evaluate(async () => {
+            await document.fonts.ready;
+        });
+        logger.debug('Web fonts loaded');
+    }
+
+    /**
+     * Replace text of matching elements with fixed placeholders.
+     * The original child nodes are kept and put back on restore, so markup survives
+     * and frameworks like React keep updating the nodes they hold.
+     */
+    async replaceText(replacements: Record<string, string>): Promise<() => Promise<void>> {
+        const replaced = await this.page.evaluate((entries: Array<[string, string]>) => {
+            const store = window as unknown as { __visualOriginalNodes?: WeakMap<Element, Node[]> };
+            const originals = store.__visualOriginalNodes = store.__visualOriginalNodes || new WeakMap<Element, Node[]>();
+
+            let count = 0;
+            for (const [selector, placeholder] of entries) {
+                document.querySelectorAll<HTMLElement>(selector).forEach(element => {
+                    if (!originals.has(element)) {
+                        originals.set(element, Array.from(element.childNodes));
+                        element.setAttribute('data-visual-replaced', '');
+                    }
+                    element.replaceChildren(document.createTextNode(placeholder));
+                    count++;
+                });
+            }
+            return count;
+        }, Object.entries(replacements));
+
+        logger.debug('Dynamic text replaced', { selectors: Object.keys(replacements).length, elements: replaced });
+
+        return async () => {
+            await this.page.evaluate(() => {
+                const originals = (window as unknown as { __visualOriginalNodes?: WeakMap<Element, Node[]> }).__visualOriginalNodes;
+
+                document.querySelectorAll<HTMLElement>('[data-visual-replaced]').forEach(element => {
+                    const nodes = originals?.get(element);
+                    if (nodes) {
+                        element.replaceChildren(...nodes);
+                        originals!.delete(element);
+                    }
+                    element.removeAttribute('data-visual-replaced');
+                });
+            });
+        };
+    }
+
+    /**
+     * Wait until the DOM stops mutating and the document size is stable
+     */
+    async waitForLayout(options: { stableFrames?: number; timeout?: number }): Promise<void> {
+        const stableFrames = options.stableFrames ?? 5;
+        const timeout = options.timeout ?? 3000;
+
+        const settled = await this.page.evaluate((args: { stableFrames: number; timeout: number }) => {
+            return new Promise<boolean>(resolve => {
+                let quietFrames = 0;
+                let lastSignature = '';
+                let mutated = false;
+
+                const observer = new MutationObserver(() => { mutated = true; });
+                observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+
+                const finish = (result: boolean) => {
+                    observer.disconnect();
+                    resolve(result);
+                };
+                const timer = setTimeout(() => finish(false), args.timeout);
+
+                const check = () => {
+                    const root = document.documentElement;
+                    const signature = `${root.scrollWidth}x${root.scrollHeight}`;
+
+                    quietFrames = !mutated && signature === lastSignature ? quietFrames + 1 : 0;
+                    lastSignature = signature;
+                    mutated = false;
+
+                    if (quietFrames >= args.stableFrames) {
+                        clearTimeout(timer);
+                        finish(true);
+                    } else {
+                        requestAnimationFrame(check);
+                    }
+                };
+                requestAnimationFrame(check);
+            });
+        }, { stableFrames, timeout });
+
+        if (settled) {
+            logger.debug('Layout settled', { stableFrames });
+        } else {
+            logger.warn('Layout did not settle before timeout, capturing anyway', { timeout });
+        }
+    }
+}
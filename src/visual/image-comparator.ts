@@ -0,0 +1,97 @@
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+
+export interface ImageCompareOptions {
+    threshold?: number;
+    maxDiffPixels?: number;
+    maxDiffPixelRatio?: number;
+    includeAntiAliasing?: boolean;
+}
+
+export interface ImageCompareResult {
+    passed: boolean;
+    diffPixels: number;
+    diffRatio: number;
+    totalPixels: number;
+    sizeMismatch: boolean;
+    diffImage?: Buffer;
+}
+
+/**
+ * Standalone PNG comparator, usable outside the Playwright Test runner
+ */
+export class ImageComparator {
+    /**
+     * Compare two PNG buffers pixel by pixel
+     */
+    compare(actual: Buffer, expected: Buffer, options?: ImageCompareOptions): ImageCompareResult {
+        const actualPng = PNG.sync.read(actual);
+        const expectedPng = PNG.sync.read(expected);
+
+        const width = Math.max(actualPng.width, expectedPng.width);
+        const height = Math.max(actualPng.height, expectedPng.height);
+        const sizeMismatch = actualPng.width !== expectedPng.width || actualPng.height !== expectedPng.height;
+
+        // Pad both images to a shared canvas so a size change shows up as diff pixels
+        const actualData = this.padImage(actualPng, width, height);
+        const expectedData = this.padImage(expectedPng, width, height);
+        const diff = new PNG({ width, height });
+
+        const diffPixels = pixelmatch(actualData, expectedData, diff.data, width, height, {
+            threshold: options?.threshold ?? 0.2,
+            includeAA: options?.includeAntiAliasing ?? false
+        });
+
+        const totalPixels = width * height;
+        const diffRatio = totalPixels > 0 ? diffPixels / totalPixels : 0;
+        const passed = !sizeMismatch && this.withinTolerance(diffPixels, diffRatio, options);
+
+        return {
+            passed,
+            diffPixels,
+            diffRatio,
+            totalPixels,
+            sizeMismatch,
+            diffImage: passed ? undefined : PNG.sync.write(diff)
+        };
+    }
+
+    /**
+     * Check diff counts against the configured limits
+     */
+    private withinTolerance(diffPixels: number, diffRatio: number, options?: ImageCompareOptions): boolean {
+        const hasPixelLimit = options?.maxDiffPixels !== undefined;
+        const hasRatioLimit = options?.maxDiffPixelRatio !== undefined;
+
+        if (!hasPixelLimit && !hasRatioLimit) {
+            return diffPixels === 0;
+        }
+
+        if (hasPixelLimit && diffPixels > options!.maxDiffPixels!) {
+            return false;
+        }
+
+        if (hasRatioLimit && diffRatio > options!.maxDiffPixelRatio!) {
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Copy image data onto a transparent canvas of the given size
+     */
+    private padImage(image: PNG, width: number, height: number): Buffer {
+        if (image.width === width && image.height === height) {
+            return image.data;
+        }
+
+        const padded = Buffer.alloc(width * height * 4);
+        for (let y = 0; y < image.height; y++) {
+            const sourceStart = y * image.width * 4;
+            image.data.copy(padded, y * width * 4, sourceStart, sourceStart + image.width * 4);
+        }
+
+        return padded;
+    }
+}
@@ -0,0 +1,63 @@
+import { VisualReview } from './visual-review';
+
+/**
+ * Visual baseline review CLI
+ *
+ *   report                 Generate the HTML review page
+ *   list                   List pending visual changes
+ *   approve <name...>      Promote actual images to baselines (name or namespace/name)
+ *   approve --all          Approve every pending change
+ *   reject <name...>       Discard pending changes
+ *   reject --all           Reject every pending change
+ */
+function main(argv: string[]): number {
+    const [command, ...args] = argv;
+    const review = new VisualReview();
+    const all = args.includes('--all');
+    const names = args.filter(arg => !arg.startsWith('--'));
+
+    switch (command) {
+        case 'report': {
+            const reportPath = review.generateReport();
+            console.log(`Visual review report: ${reportPath}`);
+            return 0;
+        }
+        case 'list': {
+            const entries = review.getPendingEntries();
+            if (entries.length === 0) {
+                console.log('No pending visual changes');
+            }
+            entries.forEach(entry => console.log(
+                `${entry.namespace ? `${entry.namespace}/` : ''}${entry.name}\t${entry.newBaseline ? 'new baseline' : `${entry.diffPixels ?? '?'} px`}\t${entry.timestamp}`
+            ));
+            return 0;
+        }
+        case 'approve':
+        case 'reject': {
+            if (!all && names.length === 0) {
+                console.error(`Usage: ${command} <name...> | ${command} --all`);
+                return 1;
+            }
+
+            const entries = all
+                ? (command === 'approve' ? review.approveAll() : review.rejectAll())
+                : names.flatMap(name => command === 'approve' ? review.approve(name) : review.reject(name));
+
+            entries.forEach(entry => console.log(
+                `${command === 'approve' ? 'Approved' : 'Rejected'}: ${entry.namespace ? `${entry.namespace}/` : ''}${entry.name}`
+            ));
+            review.generateReport();
+            return 0;
+        }
+        default:
+            console.error('Usage: review-cli <report|list|approve|reject> [name...] [--all]');
+            return 1;
+    }
+}
+
+try {
+    process.exit(main(process.argv.slice(2)));
+} catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+}
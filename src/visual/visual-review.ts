@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+import type { VisualTestResult } from './visual-testing';
+
+export interface VisualReviewEntry extends VisualTestResult {
+    baselinePath: string;
+    timestamp: string;
+}
+
+/**
+ * Persists failed visual comparisons and promotes reviewed images to baselines
+ */
+export class VisualReview {
+    private outputDir: string;
+    private entriesDir: string;
+
+    constructor(outputDir?: string) {
+        this.outputDir = path.resolve(outputDir || config.visual.outputDir);
+        this.entriesDir = path.join(this.outputDir, 'pending');
+    }
+
+    /**
+     * Record a failed comparison so it can be reviewed after the run
+     */
+    record(result: VisualTestResult, baselinePath: string): void {
+        const entry: VisualReviewEntry = {
+            ...result,
+            baselinePath,
+            timestamp: new Date().toISOString()
+        };
+
+        fs.mkdirSync(this.entriesDir, { recursive: true });
+        fs.writeFileSync(this.getEntryPath(getEntryKey(entry)), JSON.stringify(entry, null, 2));
+        logger.debug('Visual failure recorded for review', { name: result.name, namespace: result.namespace });
+    }
+
+    /**
+     * Drop a pending entry without touching the baseline
+     */
+    discard(name: string, namespace?: string): void {
+        const entryPath = this.getEntryPath(getEntryKey({ name, namespace }));
+        if (fs.existsSync(entryPath)) {
+            fs.unlinkSync(entryPath);
+        }
+    }
+
+    /**
+     * Get all comparisons awaiting review
+     */
+    getPendingEntries(): VisualReviewEntry[] {
+        if (!fs.existsSync(this.entriesDir)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.entriesDir)
+            .filter(file => file.endsWith('.json'))
+            .map(file => JSON.parse(fs.readFileSync(path.join(this.entriesDir, file), 'utf-8')) as VisualReviewEntry)
+            .sort((a, b) => getEntryKey(a).localeCompare(getEntryKey(b)));
+    }
+
+    /**
+     * Find pending entries by "namespace/name" key or by bare snapshot name
+     */
+    findEntries(nameOrKey: string): VisualReviewEntry[] {
+        return this.getPendingEntries().filter(entry =>
+            getEntryKey(entry) === nameOrKey || entry.name === nameOrKey
+        );
+    }
+
+    /**
+     * Promote the actual images of matching failed comparisons to their baselines
+     */
+    approve(nameOrKey: string): VisualReviewEntry[] {
+        const entries = this.findEntries(nameOrKey);
+
+        if (entries.length === 0) {
+            throw new Error(`No pending visual change named "${nameOrKey}"`);
+        }
+
+        for (const entry of entries) {
+            if (!entry.actualPath || !fs.existsSync(entry.actualPath)) {
+                throw new Error(`Actual image for "${getEntryKey(entry)}" is missing, re-run the comparison first`);
+            }
+
+            fs.mkdirSync(path.dirname(entry.baselinePath), { recursive: true });
+            fs.copyFileSync(entry.actualPath, entry.baselinePath);
+            this.discard(entry.name, entry.namespace);
+
+            logger.info('Visual baseline approved', { name: getEntryKey(entry), baseline: entry.baselinePath });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Approve every pending change
+     */
+    approveAll(): VisualReviewEntry[] {
+        return this.getPendingEntries().flatMap(entry => this.approve(getEntryKey(entry)));
+    }
+
+    /**
+     * Reject matching changes, keeping the current baselines
+     */
+    reject(nameOrKey: string): VisualReviewEntry[] {
+        const entries = this.findEntries(nameOrKey);
+
+        if (entries.length === 0) {
+            throw new Error(`No pending visual change named "${nameOrKey}"`);
+        }
+
+        for (const entry of entries) {
+            this.discard(entry.name, entry.namespace);
+            logger.info('Visual change rejected', { name: getEntryKey(entry) });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Reject every pending change
+     */
+    rejectAll(): VisualReviewEntry[] {
+        return this.getPendingEntries().flatMap(entry => this.reject(getEntryKey(entry)));
+    }
+
+    /**
+     * Write the HTML review page and return its path
+     */
+    generateReport(): string {
+        const entries = this.getPendingEntries();
+        const reportPath = path.join(this.outputDir, 'review.html');
+
+        fs.mkdirSync(this.outputDir, { recursive: true });
+        fs.writeFileSync(reportPath, this.generateHtml(entries));
+
+        logger.info('Visual review report generated', { path: reportPath, pending: entries.length });
+        return reportPath;
+    }
+
+    private getEntryPath(key: string): string {
+        return path.join(this.entriesDir, `${key.replace(/[^a-z0-9._-]/gi, '_')}.json`);
+    }
+
+    private relative(filePath?: string): string {
+        return filePath ? path.relative(this.outputDir, filePath).split(path.sep).join('/') : '';
+    }
+
+    private generateHtml(entries: VisualReviewEntry[]): string {
+        const cards = entries.map(entry => {
+            const actual = this.relative(entry.actualPath);
+            const expected = this.relative(entry.expectedPath);
+            const diff = this.relative(entry.diffPath);
+            const key = escapeHtml(getEntryKey(entry));
+
+            return `
+        <section class="entry" data-name="${key}">
+            <header>
+                <h2>${escapeHtml(entry.name)}</h2>
+                <span class="meta">
+                    ${escapeHtml(entry.namespace || '')}
+                    ${entry.baselineFallback ? '(fallback baseline)' : ''}
+                </span>
+                <span class="meta">
+                    ${entry.newBaseline ? 'New baseline' : `${entry.diffPixels ?? '?'} px (${((entry.diffRatio ?? 0) * 100).toFixed(2)}%)`}
+                    &middot; ${escapeHtml(entry.timestamp)}
+                </span>
+                <div class="views">
+                    <button data-view="side-by-side" class="active">Side by side</button>
+                    <button data-view="overlay">Overlay</button>
+                    <button data-view="slider">Slider</button>
+                </div>
+            </header>
+
+            <div class="view side-by-side active">
+                <figure><figcaption>Expected</figcaption>${expected ? `<img src="${expected}">` : '<p>No baseline</p>'}</figure>
+                <figure><figcaption>Actual</figcaption><img src="${actual}"></figure>
+                <figure><figcaption>Diff</figcaption>${diff ? `<img src="${diff}">` : '<p>No diff image</p>'}</figure>
+            </div>
+
+            <div class="view overlay">
+                <div class="stack">
+                    <img src="${expected}">
+                    <img class="top" src="${actual}" style="opacity: 0.5">
+                </div>
+                <label>Actual opacity <input type="range" min="0" max="100" value="50" class="opacity"></label>
+            </div>
+
+            <div class="view slider">
+                <div class="stack">
+                    <img src="${expected}">
+                    <div class="clip" style="width: 50%"><img src="${actual}"></div>
+                </div>
+                <input type="range" min="0" max="100" value="50" class="position">
+            </div>
+
+            <footer>
+                <button class="approve">Approve</button>
+                <button class="reject">Reject</button>
+                <code class="command"></code>
+            </footer>
+        </section>`;
+        }).join('');
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>Visual Review</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Arial, sans-serif; background: #f4f5f7; margin: 0; padding: 20px; }
+        h1 { color: #333; }
+        .entry { background: white; border-radius: 8px; padding: 20px; margin-bottom: 30px; box-shadow: 0 2px 8px rgba(0,0,0,0.1); }
+        .entry.approved { border-left: 6px solid #28a745; }
+        .entry.rejected { border-left: 6px solid #dc3545; }
+        header { display: flex; align-items: center; gap: 20px; flex-wrap: wrap; }
+        header h2 { margin: 0; font-size: 1.2em; }
+        .meta { color: #666; font-size: 0.9em; }
+        .views button.active { background: #667eea; color: white; }
+        .view { display: none; margin-top: 15px; overflow: auto; }
+        .view.active { display: block; }
+        .side-by-side.active { display: grid; grid-template-columns: repeat(3, 1fr); gap: 10px; }
+        figure { margin: 0; }
+        figcaption { font-weight: 600; margin-bottom: 5px; }
+        img { max-width: 100%; border: 1px solid #ddd; }
+        .stack { position: relative; display: inline-block; }
+        .stack .top, .stack .clip { position: absolute; top: 0; left: 0; }
+        .stack .clip { overflow: hidden; height: 100%; border-right: 2px solid #dc3545; }
+        .stack img { max-width: none; }
+        input[type=range] { width: 100%; }
+        footer { margin-top: 15px; display: flex; gap: 10px; align-items: center; }
+        button { padding: 6px 14px; border: 1px solid #ccc; border-radius: 4px; background: white; cursor: pointer; }
+        .approve { border-color: #28a745; color: #28a745; }
+        .reject { border-color: #dc3545; color: #dc3545; }
+        code { background: #f8f9fa; padding: 4px 8px; }
+    </style>
+</head>
+<body>
+    <h1>Visual Review (${entries.length} pending)</h1>
+    <p>Approve or reject each change, then run the generated command to update baselines.
+       <code>npm run visual:approve -- --all</code> accepts everything.</p>
+    ${entries.length === 0 ? '<p>No pending visual changes.</p>' : cards}
+    <script>
+        document.querySelectorAll('.entry').forEach(function(entry) {
+            var name = entry.getAttribute('data-name');
+
+            entry.querySelectorAll('.views button').forEach(function(button) {
+                button.addEventListener('click', function() {
+                    entry.querySelectorAll('.views button, .view').forEach(function(el) { el.classList.remove('active'); });
+                    button.classList.add('active');
+                    entry.querySelector('.view.' + button.getAttribute('data-view')).classList.add('active');
+                });
+            });
+
+            entry.querySelector('.opacity').addEventListener('input', function(e) {
+                entry.querySelector('.overlay .top').style.opacity = e.target.value / 100;
+            });
+
+            entry.querySelector('.position').addEventListener('input', function(e) {
+                entry.querySelector('.slider .clip').style.width = e.target.value + '%';
+            });
+
+            ['approve', 'reject'].forEach(function(action) {
+                entry.querySelector('.' + action).addEventListener('click', function() {
+                    var command = 'npm run visual:' + action + ' -- "' + name + '"';
+                    entry.classList.remove('approved', 'rejected');
+                    entry.classList.add(action === 'approve' ? 'approved' : 'rejected');
+                    entry.querySelector('.command').textContent = command;
+                    if (navigator.clipboard) navigator.clipboard.writeText(command);
+                });
+            });
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
+
+function getEntryKey(entry: { name: string; namespace?: string }): string {
+    return entry.namespace ? `${entry.namespace}/${entry.name}` : entry.name;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
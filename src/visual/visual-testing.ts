@@ -1,5 +1,9 @@
-import { Page, Locator, expect } from '@playwright/test';
+import { Page, Locator } from '@playwright/test';
 import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+import { ImageComparator } from './image-comparator';
+import { VisualReview } from './visual-review';
+import { ContentStabilizer, VisualStabilizeOptions } from './content-stabilizer';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -7,9 +11,11 @@ export interface VisualCompareOptions {
     maxDiffPixels?: number;
     maxDiffPixelRatio?: number;
     threshold?: number;
+    includeAntiAliasing?: boolean;
     animations?: 'disabled' | 'allow';
     mask?: Locator[];
     fullPage?: boolean;
+    stabilize?: VisualStabilizeOptions | false;
 }
 
 export interface VisualTestResult {
@@ -20,6 +26,45 @@ export interface VisualTestResult {
     actualPath?: string;
     expectedPath?: string;
     diffPath?: string;
+    namespace?: string;
+    baselinePath?: string;
+    baselineFallback?: boolean;
+    // No baseline existed: it was just written, or approving the actual image creates it
+    newBaseline?: boolean;
+}
+
+export interface VisualTestingOptions {
+    snapshotDir?: string;
+    outputDir?: string;
+    updateSnapshots?: 'none' | 'missing' | 'all';
+    deviceName?: string;
+    baselineNamespaces?: string[];
+}
+
+export interface BaselineNamespace {
+    browser: string;
+    platform: string;
+    device: string;
+    viewport: string;
+}
+
+interface BaselineCandidate {
+    namespace: string;
+    path: string;
+}
+
+/**
+ * Raised when a screenshot does not match its baseline
+ */
+export class VisualComparisonError extends Error {
+    constructor(message: string, public result: VisualTestResult) {
+        super(message);
+        this.name = 'VisualComparisonError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, VisualComparisonError);
+        }
+    }
 }
 
 /**
@@ -27,10 +72,23 @@ export interface VisualTestResult {
  */
 export class VisualTesting {
     private snapshotDir: string;
+    private outputDir: string;
+    private updateSnapshots: 'none' | 'missing' | 'all';
+    private baselineNamespaces: string[];
+    private deviceName: string;
+    private comparator = new ImageComparator();
+    private stabilizer: ContentStabilizer;
+    private review: VisualReview;
     private results: VisualTestResult[] = [];
 
-    constructor(private page: Page) {
-        this.snapshotDir = path.join(process.cwd(), 'test-results', 'screenshots', 'snapshots');
+    constructor(private page: Page, options?: VisualTestingOptions) {
+        this.snapshotDir = path.resolve(options?.snapshotDir || config.visual.snapshotDir);
+        this.outputDir = path.resolve(options?.outputDir || config.visual.outputDir);
+        this.updateSnapshots = options?.updateSnapshots || config.visual.updateSnapshots;
+        this.baselineNamespaces = options?.baselineNamespaces || config.visual.baselineNamespaces;
+        this.deviceName = options?.deviceName || 'desktop';
+        this.review = new VisualReview(this.outputDir);
+        this.stabilizer = new ContentStabilizer(page);
         this.ensureSnapshotDir();
     }
 
@@ -43,43 +101,45 @@ export class VisualTesting {
         }
     }
 
+    /**
+     * Set the emulated device name used to namespace baselines
+     */
+    setDeviceName(deviceName: string): void {
+        this.deviceName = deviceName;
+        logger.debug('Visual baseline device set', { device: deviceName });
+    }
+
+    /**
+     * Get the browser/platform/device/viewport namespace for the current page
+     */
+    getNamespace(): BaselineNamespace {
+        const viewport = this.page.viewportSize();
+
+        return {
+            browser: this.page.context().browser()?.browserType().name() || config.browser,
+            platform: process.platform,
+            device: this.deviceName,
+            viewport: viewport ? `${viewport.width}x${viewport.height}` : 'default'
+        };
+    }
+
     /**
      * Compare full page screenshot with baseline
      */
     async compareFullPage(name: string, options?: VisualCompareOptions): Promise<void> {
         logger.info('Comparing full page screenshot', { name });
 
-        try {
-            await expect(this.page).toHaveScreenshot(`${name}.png`, {
-                maxDiffPixels: options?.maxDiffPixels || 100,
-                maxDiffPixelRatio: options?.maxDiffPixelRatio,
-                threshold: options?.threshold || 0.2,
-                animations: options?.animations || 'disabled',
-                mask: options?.mask,
-                fullPage: options?.fullPage !== false
-            });
+        const screenshot = await this.captureStable(options, caret => this.page.screenshot({
+            animations: options?.animations || 'disabled',
+            caret,
+            mask: options?.mask,
+            fullPage: options?.fullPage !== false
+        }));
 
-            this.results.push({
-                name,
-                passed: true
-            });
-
-            logger.info('Visual comparison passed', { name });
-        } catch (error: any) {
-            logger.error('Visual comparison failed', { 
-                name, 
-                error: error.message 
-            });
-
-            this.results.push({
-                name,
-                passed: false,
-                diffPixels: error.matcherResult?.diffPixels,
-                diffRatio: error.matcherResult?.diffRatio
-            });
-
-            throw error;
-        }
+        await this.compareScreenshot(name, screenshot, {
+            ...options,
+            maxDiffPixels: options?.maxDiffPixels ?? config.visual.maxDiffPixels
+        });
     }
 
     /**
@@ -88,40 +148,19 @@ export class VisualTesting {
     async compareElement(selector: string, name: string, options?: VisualCompareOptions): Promise<void> {
         logger.info('Comparing element screenshot', { selector, name });
 
-        try {
-            const element = this.page.locator(selector);
-            await element.scrollIntoViewIfNeeded();
-
-            await expect(element).toHaveScreenshot(`${name}-element.png`, {
-                maxDiffPixels: options?.maxDiffPixels || 50,
-                maxDiffPixelRatio: options?.maxDiffPixelRatio,
-                threshold: options?.threshold || 0.2,
-                animations: options?.animations || 'disabled',
-                mask: options?.mask
-            });
-
-            this.results.push({
-                name: `${name}-element`,
-                passed: true
-            });
-
-            logger.info('Element visual comparison passed', { selector, name });
-        } catch (error: any) {
-            logger.error('Element visual comparison failed', { 
-                selector, 
-                name, 
-                error: error.message 
-            });
+        const element = this.page.locator(selector);
+        await element.scrollIntoViewIfNeeded();
 
-            this.results.push({
-                name: `${name}-element`,
-                passed: false,
-                diffPixels: error.matcherResult?.diffPixels,
-                diffRatio: error.matcherResult?.diffRatio
-            });
+        const screenshot = await this.captureStable(options, caret => element.screenshot({
+            animations: options?.animations || 'disabled',
+            caret,
+            mask: options?.mask
+        }));
 
-            throw error;
-        }
+        await this.compareScreenshot(`${name}-element`, screenshot, {
+            ...options,
+            maxDiffPixels: options?.maxDiffPixels ?? 50
+        });
     }
 
     /**
@@ -142,35 +181,17 @@ export class VisualTesting {
     async compareViewport(name: string, options?: VisualCompareOptions): Promise<void> {
         logger.info('Comparing viewport screenshot', { name });
 
-        try {
-            await expect(this.page).toHaveScreenshot(`${name}-viewport.png`, {
-                maxDiffPixels: options?.maxDiffPixels || 100,
-                maxDiffPixelRatio: options?.maxDiffPixelRatio,
-                threshold: options?.threshold || 0.2,
-                animations: options?.animations || 'disabled',
-                mask: options?.mask,
-                fullPage: false
-            });
-
-            this.results.push({
-                name: `${name}-viewport`,
-                passed: true
-            });
+        const screenshot = await this.captureStable(options, caret => this.page.screenshot({
+            animations: options?.animations || 'disabled',
+            caret,
+            mask: options?.mask,
+            fullPage: false
+        }));
 
-            logger.info('Viewport visual comparison passed', { name });
-        } catch (error: any) {
-            logger.error('Viewport visual comparison failed', { 
-                name, 
-                error: error.message 
-            });
-
-            this.results.push({
-                name: `${name}-viewport`,
-                passed: false
-            });
-
-            throw error;
-        }
+        await this.compareScreenshot(`${name}-viewport`, screenshot, {
+            ...options,
+            maxDiffPixels: options?.maxDiffPixels ?? config.visual.maxDiffPixels
+        });
     }
 
     /**
@@ -273,15 +294,186 @@ export class VisualTesting {
     }
 
     /**
-     * Update baseline (accept current as new baseline)
+     * Update baseline (accept the actual image of the last failed comparison)
      */
     async updateBaseline(name: string): Promise<void> {
         logger.warn('Updating baseline', { name });
-        
-        // Playwright automatically updates baselines with --update-snapshots flag
-        // This method is for logging/documentation purposes
-        
-        logger.info('To update baselines, run tests with --update-snapshots flag');
+
+        const entries = this.review.approve(name);
+
+        entries.forEach(entry => logger.info('Baseline updated', { name, path: entry.baselinePath }));
+    }
+
+    /**
+     * Run the stabilization pipeline around a screenshot capture
+     */
+    private async captureStable(
+        options: VisualCompareOptions | undefined,
+        capture: (caret: 'hide' | 'initial') => Promise<Buffer>
+    ): Promise<Buffer> {
+        if (options?.stabilize === false) {
+            return capture('initial');
+        }
+
+        const stabilize: VisualStabilizeOptions = {
+            ...config.visual.stabilize,
+            ...options?.stabilize,
+            replaceText: { ...config.visual.stabilize.replaceText, ...options?.stabilize?.replaceText }
+        };
+
+        const restore = await this.stabilizer.apply(stabilize);
+        try {
+            return await capture(stabilize.hideCaret ? 'hide' : 'initial');
+        } finally {
+            await restore();
+        }
+    }
+
+    /**
+     * Compare a captured screenshot against its baseline on disk
+     */
+    private async compareScreenshot(name: string, screenshot: Buffer, options: VisualCompareOptions): Promise<void> {
+        const candidates = this.getBaselineCandidates(name);
+        const primary = candidates[0];
+        const baseline = candidates.find(candidate => fs.existsSync(candidate.path));
+
+        if (this.updateSnapshots === 'all' || (!baseline && this.updateSnapshots === 'missing')) {
+            this.writeImage(primary.path, screenshot);
+            this.review.discard(name, primary.namespace);
+            this.results.push({
+                name,
+                passed: true,
+                namespace: primary.namespace,
+                baselinePath: primary.path,
+                baselineFallback: false,
+                newBaseline: !baseline,
+                expectedPath: primary.path
+            });
+
+            if (baseline) {
+                logger.info('Baseline overwritten', { name, path: primary.path });
+            } else {
+                logger.warn('Baseline created, nothing was compared', { name, path: primary.path });
+            }
+            return;
+        }
+
+        if (!baseline) {
+            const actualPath = this.writeImage(this.getOutputPath(name, primary.namespace, 'actual'), screenshot);
+            const result: VisualTestResult = { name, passed: false, namespace: primary.namespace, actualPath, newBaseline: true };
+            this.results.push(result);
+            this.review.record(result, primary.path);
+
+            logger.error('Visual baseline missing', {
+                name,
+                searched: candidates.map(candidate => candidate.path)
+            });
+            throw new VisualComparisonError(
+                `No baseline found for "${name}" in ${candidates.map(candidate => candidate.namespace).join(', ')}. ` +
+                'Approve it with "npm run visual:approve" or run with VISUAL_UPDATE_SNAPSHOTS=missing to create it.',
+                result
+            );
+        }
+
+        const baselineFallback = baseline !== primary;
+        if (baselineFallback) {
+            logger.warn('Using fallback visual baseline', { name, wanted: primary.namespace, used: baseline.namespace });
+        }
+
+        const comparison = this.comparator.compare(screenshot, fs.readFileSync(baseline.path), {
+            threshold: options.threshold ?? config.visual.threshold,
+            maxDiffPixels: options.maxDiffPixels,
+            maxDiffPixelRatio: options.maxDiffPixelRatio,
+            includeAntiAliasing: options.includeAntiAliasing
+        });
+
+        if (comparison.passed) {
+            this.review.discard(name, primary.namespace);
+            this.results.push({
+                name,
+                passed: true,
+                diffPixels: comparison.diffPixels,
+                diffRatio: comparison.diffRatio,
+                namespace: primary.namespace,
+                baselinePath: baseline.path,
+                baselineFallback,
+                expectedPath: baseline.path
+            });
+
+            logger.info('Visual comparison passed', { name, baseline: baseline.namespace, diffPixels: comparison.diffPixels });
+            return;
+        }
+
+        const result: VisualTestResult = {
+            name,
+            passed: false,
+            diffPixels: comparison.diffPixels,
+            diffRatio: comparison.diffRatio,
+            namespace: primary.namespace,
+            baselinePath: baseline.path,
+            baselineFallback,
+            actualPath: this.writeImage(this.getOutputPath(name, primary.namespace, 'actual'), screenshot),
+            expectedPath: this.writeImage(
+                this.getOutputPath(name, primary.namespace, 'expected'),
+                fs.readFileSync(baseline.path)
+            ),
+            diffPath: comparison.diffImage
+                ? this.writeImage(this.getOutputPath(name, primary.namespace, 'diff'), comparison.diffImage)
+                : undefined
+        };
+        this.results.push(result);
+        this.review.record(result, primary.path);
+
+        logger.error('Visual comparison failed', {
+            name,
+            baseline: baseline.namespace,
+            diffPixels: comparison.diffPixels,
+            diffRatio: comparison.diffRatio.toFixed(4),
+            sizeMismatch: comparison.sizeMismatch,
+            diffPath: result.diffPath
+        });
+
+        throw new VisualComparisonError(
+            comparison.sizeMismatch
+                ? `Screenshot "${name}" size differs from baseline ${baseline.namespace}`
+                : `Screenshot "${name}" differs from baseline ${baseline.namespace} by ${comparison.diffPixels} pixels ` +
+                  `(${(comparison.diffRatio * 100).toFixed(2)}%)`,
+            result
+        );
+    }
+
+    /**
+     * Resolve baseline paths for a snapshot, most specific namespace first
+     */
+    private getBaselineCandidates(name: string): BaselineCandidate[] {
+        const namespace = this.getNamespace();
+
+        return this.baselineNamespaces.map(pattern => {
+            const key = pattern
+                .replace(/\{(\w+)\}/g, (_, token: string) => isNamespaceKey(namespace, token) ? namespace[token] : token)
+                .replace(/\/+$/, '');
+
+            return {
+                namespace: key || '.',
+                path: path.join(this.snapshotDir, key, `${name}.png`)
+            };
+        });
+    }
+
+    /**
+     * Get failure artifact path for a snapshot name
+     */
+    private getOutputPath(name: string, namespace: string, kind: 'actual' | 'expected' | 'diff'): string {
+        return path.join(this.outputDir, namespace, `${name}-${kind}.png`);
+    }
+
+    /**
+     * Write PNG to disk, creating parent directories
+     */
+    private writeImage(filePath: string, image: Buffer): string {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, image);
+        return filePath;
     }
 
     /**
@@ -291,6 +483,20 @@ export class VisualTesting {
         return this.results;
     }
 
+    /**
+     * Get which baseline each comparison used
+     */
+    getBaselineReport(): Array<{ name: string; namespace?: string; baselinePath?: string; fallback: boolean; newBaseline: boolean; passed: boolean }> {
+        return this.results.map(result => ({
+            name: result.name,
+            namespace: result.namespace,
+            baselinePath: result.baselinePath,
+            fallback: result.baselineFallback === true,
+            newBaseline: result.newBaseline === true,
+            passed: result.passed
+        }));
+    }
+
     /**
      * Get failed tests
      */
@@ -347,4 +553,11 @@ export class VisualTesting {
             await this.compareFullPage(pageInfo.name, options);
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a {token} in a baseline path pattern names a namespace field
+ */
+function isNamespaceKey(namespace: BaselineNamespace, token: string): token is keyof BaselineNamespace {
+    return Object.prototype.hasOwnProperty.call(namespace, token);
+}
@@ -0,0 +1,108 @@
+/**
+ * Seeded fault selection for network chaos mode
+ */
+
+export type ChaosFault = 'error' | 'abort' | 'timeout' | 'truncate' | 'latency';
+
+export const CHAOS_FAULTS: ChaosFault[] = ['error', 'abort', 'timeout', 'truncate', 'latency'];
+
+export interface ChaosOptions {
+    probability: number;
+    seed?: number | string;
+    faults?: ChaosFault[];
+    errorStatuses?: number[];
+    latency?: number;
+    timeout?: number;
+}
+
+export interface ChaosEvent {
+    url: string;
+    method: string;
+    fault: ChaosFault;
+    detail: string;
+    seed: number;
+    sequence: number;
+    timestamp: string;
+}
+
+export interface ChaosDecision {
+    fault: ChaosFault;
+    status?: number;
+}
+
+/**
+ * Turn a numeric or string seed into a 32-bit integer
+ */
+export function normalizeSeed(seed: number | string): number {
+    if (typeof seed === 'number') {
+        return seed >>> 0;
+    }
+
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Decides which requests fail and how; the same seed gives the same sequence of decisions
+ */
+export class ChaosMonkey {
+    readonly seed: number;
+    private state: number;
+    private sequence = 0;
+
+    constructor(private options: ChaosOptions) {
+        if (options.probability < 0 || options.probability > 1) {
+            throw new Error(`Chaos probability must be between 0 and 1, got ${options.probability}`);
+        }
+
+        this.seed = normalizeSeed(options.seed ?? Date.now());
+        this.state = this.seed;
+    }
+
+    /**
+     * Decide the fate of the next request; undefined means it passes through untouched
+     */
+    next(): ChaosDecision | undefined {
+        this.sequence++;
+
+        // Draw the same numbers for every request so later decisions do not shift with the outcome
+        const roll = this.random();
+        const pick = this.random();
+        const statusPick = this.random();
+
+        if (roll >= this.options.probability) {
+            return undefined;
+        }
+
+        const faults = this.options.faults?.length ? this.options.faults : CHAOS_FAULTS;
+        const fault = faults[Math.floor(pick * faults.length)];
+
+        if (fault === 'error') {
+            const statuses = this.options.errorStatuses?.length ? this.options.errorStatuses : [500, 502, 503, 504];
+            return { fault, status: statuses[Math.floor(statusPick * statuses.length)] };
+        }
+
+        return { fault };
+    }
+
+    /**
+     * Number of requests seen so far
+     */
+    getSequence(): number {
+        return this.sequence;
+    }
+
+    // mulberry32
+    private random(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
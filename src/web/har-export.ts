@@ -0,0 +1,120 @@
+import type { NetworkLog } from './network-helper';
+
+interface HarHeader {
+    name: string;
+    value: string;
+}
+
+export interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        queryString: HarHeader[];
+        cookies: [];
+        headersSize: number;
+        bodySize: number;
+        postData?: { mimeType: string; text?: string; comment?: string };
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        cookies: [];
+        content: { size: number; mimeType: string; text?: string; comment?: string };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: Record<string, never>;
+    timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+    _resourceType?: string;
+    _failure?: string;
+}
+
+export interface HarDocument {
+    log: {
+        version: string;
+        creator: { name: string; version: string };
+        entries: HarEntry[];
+    };
+}
+
+/**
+ * Convert captured network logs to a HAR 1.2 document
+ */
+export function toHar(logs: NetworkLog[]): HarDocument {
+    return {
+        log: {
+            version: '1.2',
+            creator: { name: 'playwright-cucumber-framework', version: '1.0.0' },
+            entries: logs.filter(log => !log.frames).map(toHarEntry)
+        }
+    };
+}
+
+function toHarEntry(log: NetworkLog): HarEntry {
+    const requestContentType = log.requestHeaders?.['content-type'] || 'application/octet-stream';
+    const responseContentType = log.responseHeaders?.['content-type'] || '';
+    const timing = log.timing;
+
+    return {
+        startedDateTime: log.timestamp,
+        time: log.duration ?? 0,
+        request: {
+            method: log.method,
+            url: log.url,
+            httpVersion: 'HTTP/1.1',
+            headers: toHeaders(log.requestHeaders),
+            queryString: [...new URL(log.url).searchParams].map(([name, value]) => ({ name, value })),
+            cookies: [],
+            headersSize: -1,
+            bodySize: log.requestBody ? Buffer.byteLength(log.requestBody) : 0,
+            // A skipped request body still gets postData so its note is kept
+            ...((log.requestBody !== undefined || log.requestBodyNote) && {
+                postData: {
+                    mimeType: requestContentType,
+                    ...(log.requestBody !== undefined && { text: log.requestBody }),
+                    ...(log.requestBodyNote && { comment: log.requestBodyNote })
+                }
+            })
+        },
+        response: {
+            // HAR uses status 0 for requests that never got a response
+            status: log.status ?? 0,
+            statusText: log.statusText ?? '',
+            httpVersion: 'HTTP/1.1',
+            headers: toHeaders(log.responseHeaders),
+            cookies: [],
+            content: {
+                size: log.responseBody ? Buffer.byteLength(log.responseBody) : -1,
+                mimeType: responseContentType,
+                ...(log.responseBody !== undefined && { text: log.responseBody }),
+                ...(log.responseBodyNote && { comment: log.responseBodyNote })
+            },
+            redirectURL: log.responseHeaders?.location || '',
+            headersSize: -1,
+            bodySize: -1
+        },
+        cache: {},
+        timings: {
+            blocked: timing?.blocked ?? -1,
+            dns: timing?.dns ?? -1,
+            connect: timing?.connect ?? -1,
+            ssl: timing?.ssl ?? -1,
+            send: timing?.send ?? 0,
+            wait: timing?.wait ?? 0,
+            receive: timing?.receive ?? 0
+        },
+        _resourceType: log.resourceType,
+        ...(log.failure && { _failure: log.failure })
+    };
+}
+
+function toHeaders(headers?: Record<string, string>): HarHeader[] {
+    return Object.entries(headers || {}).map(([name, value]) => ({ name, value }));
+}
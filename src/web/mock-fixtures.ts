@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { config } from '../../config/test.config';
+import type { MockResponse } from './network-helper';
+
+export interface MockFixtureResponse extends MockResponse {
+    delay?: number;
+}
+
+/**
+ * One mocked endpoint in a fixture file.
+ * `url` is a glob, or a regular expression when written as /pattern/flags.
+ */
+export interface MockDefinition {
+    name?: string;
+    url: string;
+    method?: string;
+    body?: string | Record<string, unknown>;
+    response?: MockFixtureResponse;
+    responses?: MockFixtureResponse[];
+}
+
+export interface MockSet {
+    name: string;
+    file: string;
+    mocks: MockDefinition[];
+}
+
+export interface MockUsage {
+    set: string;
+    name: string;
+    method: string;
+    url: string;
+    hits: number;
+}
+
+const FIXTURE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Load a mock set by name from the fixture directory
+ */
+export function loadMockSet(name: string, dir: string = config.mocks.dir): MockSet {
+    const file = FIXTURE_EXTENSIONS
+        .map(extension => path.join(dir, `${name}${extension}`))
+        .find(candidate => fs.existsSync(candidate));
+
+    if (!file) {
+        throw new Error(`Mock set "${name}" not found in ${dir} (looked for ${FIXTURE_EXTENSIONS.join(', ')})`);
+    }
+
+    const content = fs.readFileSync(file, 'utf-8');
+    const parsed = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+    const mocks: MockDefinition[] = Array.isArray(parsed) ? parsed : parsed?.mocks;
+
+    if (!Array.isArray(mocks)) {
+        throw new Error(`Mock set "${name}" must be a list of mocks or an object with a "mocks" list (${file})`);
+    }
+
+    mocks.forEach((mock, index) => {
+        if (!mock.url) {
+            throw new Error(`Mock #${index + 1} in "${name}" has no url (${file})`);
+        }
+        if (!mock.response && !mock.responses?.length) {
+            throw new Error(`Mock "${mock.name || mock.url}" in "${name}" has no response (${file})`);
+        }
+    });
+
+    return { name, file, mocks };
+}
+
+/**
+ * Convert a fixture URL into a Playwright route matcher
+ */
+export function toUrlMatcher(url: string): string | RegExp {
+    const regex = url.match(/^\/(.+)\/([a-z]*)$/);
+    return regex ? new RegExp(regex[1], regex[2]) : url;
+}
+
+/**
+ * Check a request body against the fixture body matcher.
+ * Objects match when every listed field is present with an equal value; strings match as substrings.
+ */
+export function matchesBody(matcher: MockDefinition['body'], postData: string | null): boolean {
+    if (matcher === undefined) {
+        return true;
+    }
+    if (postData === null) {
+        return false;
+    }
+    if (typeof matcher === 'string') {
+        return postData.includes(matcher);
+    }
+
+    try {
+        return isSubset(matcher, JSON.parse(postData));
+    } catch {
+        return false;
+    }
+}
+
+function isSubset(expected: unknown, actual: unknown): boolean {
+    if (expected === null || typeof expected !== 'object') {
+        return expected === actual;
+    }
+    if (actual === null || typeof actual !== 'object') {
+        return false;
+    }
+    return Object.entries(expected as Record<string, unknown>)
+        .every(([key, value]) => isSubset(value, (actual as Record<string, unknown>)[key]));
+}
@@ -1,7 +1,16 @@
-import { Page, Route, Request, Response } from '@playwright/test';
+import { Page, Route, Request, Response, WebSocket, WebSocketRoute } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
 import { logger } from '../utils/logger';
+import { config } from '../../config/test.config';
+import { Throttler } from '../performance/throttler';
+import { loadMockSet, toUrlMatcher, matchesBody, MockUsage } from './mock-fixtures';
+import { ChaosMonkey, ChaosOptions, ChaosEvent, ChaosDecision } from './chaos';
+import { RequestExpectation } from './request-expectation';
+import { toHar, HarDocument } from './har-export';
 
 export interface NetworkLog {
+    id: string;
     url: string;
     method: string;
     status?: number;
@@ -10,7 +19,63 @@ export interface NetworkLog {
     requestHeaders?: Record<string, string>;
     responseHeaders?: Record<string, string>;
     resourceType?: string;
+    requestBody?: string;
+    responseBody?: string;
+    // Why a body was not recorded or was cut short (size limit, content type)
+    requestBodyNote?: string;
+    responseBodyNote?: string;
+    failure?: string;
+    timing?: NetworkTimingPhases;
     timestamp: string;
+    frames?: SocketFrame[];
+}
+
+/**
+ * Timing phases in ms (-1 when the phase did not happen, e.g. a reused connection)
+ */
+export interface NetworkTimingPhases {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+}
+
+export interface NetworkCaptureOptions {
+    captureBodies?: boolean;
+    maxBodySize?: number;
+    bodyContentTypes?: string[];
+}
+
+export interface SocketFrame {
+    url: string;
+    protocol: 'websocket' | 'sse';
+    direction: 'sent' | 'received';
+    payload: string;
+    event?: string;
+    mocked?: boolean;
+    timestamp: string;
+}
+
+export type SocketMessageMatcher = string | RegExp | object | ((payload: string) => boolean);
+
+export interface SocketMockReply {
+    match: SocketMessageMatcher;
+    reply: string | object | Array<string | object> | ((payload: string) => string | object | undefined);
+}
+
+export interface SocketMockOptions {
+    onConnect?: Array<string | object>;
+    replies?: SocketMockReply[];
+}
+
+export interface ServerSentEvent {
+    data: string | object;
+    event?: string;
+    id?: string;
+    retry?: number;
 }
 
 export interface MockResponse {
@@ -20,64 +85,86 @@ export interface MockResponse {
     headers?: Record<string, string>;
 }
 
+export interface HarReplayOptions {
+    notFound?: 'abort' | 'fallback';
+    url?: string | RegExp;
+}
+
 export class NetworkHelper {
     private networkLogs: NetworkLog[] = [];
-    private requestTimestamps: Map<string, number> = new Map();
+    private requestLogs: WeakMap<Request, NetworkLog> = new WeakMap();
+    private pendingBodies: Set<Promise<void>> = new Set();
+    private logSequence = 0;
+    private captureOptions: Required<NetworkCaptureOptions> = {
+        captureBodies: config.network.captureBodies,
+        maxBodySize: config.network.maxBodySize,
+        bodyContentTypes: config.network.bodyContentTypes
+    };
+    private captureListeners?: {
+        request: (request: Request) => void;
+        response: (response: Response) => void;
+        requestfinished: (request: Request) => void;
+        requestfailed: (request: Request) => void;
+    };
+    private harRecordingPath?: string;
+    private mockUsage: MockUsage[] = [];
+    private chaosEvents: ChaosEvent[] = [];
+    private chaosRoutes: Array<{ pattern: string | RegExp; handler: (route: Route) => Promise<void> }> = [];
+    private socketFrames: SocketFrame[] = [];
+    private mockedSockets: WebSocketRoute[] = [];
+    private socketListener?: (ws: WebSocket) => void;
+    private sseCaptureInstalled = false;
+    private marks: Map<string, number> = new Map();
 
     constructor(private page: Page) {}
 
     /**
-     * Start capturing network logs
+     * Start capturing network logs, keyed by request so concurrent calls to one URL stay apart.
+     * When capture is already running only the options change, and earlier entries are kept.
      */
-    startCapturingLogs(): void {
-        logger.info('Starting network log capture');
+    startCapturingLogs(options?: NetworkCaptureOptions): void {
+        this.captureOptions = {
+            captureBodies: options?.captureBodies ?? config.network.captureBodies,
+            maxBodySize: options?.maxBodySize ?? config.network.maxBodySize,
+            bodyContentTypes: options?.bodyContentTypes ?? config.network.bodyContentTypes
+        };
 
-        // Capture requests
-        this.page.on('request', (request: Request) => {
-            const timestamp = Date.now();
-            this.requestTimestamps.set(request.url(), timestamp);
+        if (this.captureListeners) {
+            logger.debug('Network log capture already running; options updated', this.captureOptions);
+            return;
+        }
 
-            this.networkLogs.push({
-                url: request.url(),
-                method: request.method(),
-                requestHeaders: request.headers(),
-                resourceType: request.resourceType(),
-                timestamp: new Date(timestamp).toISOString()
-            });
-        });
+        logger.info('Starting network log capture', this.captureOptions);
 
-        // Capture responses
-        this.page.on('response', (response: Response) => {
-            const request = response.request();
-            const requestTime = this.requestTimestamps.get(request.url()) || Date.now();
-            const duration = Date.now() - requestTime;
-
-            const logIndex = this.networkLogs.findIndex(log => 
-                log.url === request.url() && !log.status
-            );
-
-            if (logIndex !== -1) {
-                this.networkLogs[logIndex] = {
-                    ...this.networkLogs[logIndex],
-                    status: response.status(),
-                    statusText: response.statusText(),
-                    duration,
-                    responseHeaders: response.headers()
-                };
-            }
+        this.captureListeners = {
+            request: (request: Request) => this.onRequest(request),
+            response: (response: Response) => this.onResponse(response),
+            requestfinished: (request: Request) => this.onRequestFinished(request),
+            requestfailed: (request: Request) => this.onRequestFailed(request)
+        };
 
-            this.requestTimestamps.delete(request.url());
-        });
+        this.page.on('request', this.captureListeners.request);
+        this.page.on('response', this.captureListeners.response);
+        this.page.on('requestfinished', this.captureListeners.requestfinished);
+        this.page.on('requestfailed', this.captureListeners.requestfailed);
 
         logger.info('Network log capture started');
     }
 
     /**
-     * Stop capturing network logs
+     * Stop capturing network logs (only removes the listeners added by startCapturingLogs)
      */
     stopCapturingLogs(): void {
-        this.page.removeAllListeners('request');
-        this.page.removeAllListeners('response');
+        if (!this.captureListeners) {
+            return;
+        }
+
+        this.page.off('request', this.captureListeners.request);
+        this.page.off('response', this.captureListeners.response);
+        this.page.off('requestfinished', this.captureListeners.requestfinished);
+        this.page.off('requestfailed', this.captureListeners.requestfailed);
+        this.captureListeners = undefined;
+
         logger.info('Network log capture stopped');
     }
 
@@ -96,6 +183,21 @@ export class NetworkHelper {
         return this.networkLogs.filter(log => regex.test(log.url));
     }
 
+    /**
+     * Fluent assertion over captured requests matching a URL pattern
+     */
+    expectRequest(pattern: string | RegExp): RequestExpectation {
+        return new RequestExpectation(pattern, () => this.networkLogs, name => this.marks.get(name));
+    }
+
+    /**
+     * Record a named point in time (e.g. right before a UI action) for time-window assertions
+     */
+    mark(name: string): void {
+        this.marks.set(name, Date.now());
+        logger.debug('Network mark set', { name });
+    }
+
     /**
      * Get logs filtered by status code
      */
@@ -115,7 +217,9 @@ export class NetworkHelper {
      */
     clearLogs(): void {
         this.networkLogs = [];
-        this.requestTimestamps.clear();
+        this.socketFrames = [];
+        this.marks.clear();
+        this.requestLogs = new WeakMap();
         logger.debug('Network logs cleared');
     }
 
@@ -145,6 +249,380 @@ export class NetworkHelper {
         });
     }
 
+    /**
+     * Activate a mock set from the fixture directory (JSON or YAML)
+     */
+    async useMockSet(name: string): Promise<void> {
+        const mockSet = loadMockSet(name);
+        logger.info('Activating mock set', { set: name, file: mockSet.file, mocks: mockSet.mocks.length });
+
+        // Later routes take precedence, so register in reverse to let the first listed mock win
+        for (const mock of [...mockSet.mocks].reverse()) {
+            const method = mock.method?.toUpperCase();
+            const responses = mock.responses?.length ? mock.responses : [mock.response!];
+            const usage: MockUsage = {
+                set: name,
+                name: mock.name || `${method || 'ANY'} ${mock.url}`,
+                method: method || 'ANY',
+                url: mock.url,
+                hits: 0
+            };
+            this.mockUsage.unshift(usage);
+
+            await this.page.route(toUrlMatcher(mock.url), async (route: Route) => {
+                const request = route.request();
+
+                if ((method && request.method() !== method) || !matchesBody(mock.body, request.postData())) {
+                    await route.fallback();
+                    return;
+                }
+
+                // Sequential responses; the last one repeats once the list is used up
+                const response = responses[Math.min(usage.hits, responses.length - 1)];
+                usage.hits++;
+
+                if (response.delay) {
+                    await new Promise(resolve => setTimeout(resolve, response.delay));
+                }
+
+                await route.fulfill({
+                    status: response.status || 200,
+                    contentType: response.contentType || 'application/json',
+                    headers: response.headers || {},
+                    body: this.formatResponseBody(response.body)
+                });
+
+                logger.debug('Fixture mock served', {
+                    mock: usage.name,
+                    url: request.url(),
+                    hit: usage.hits,
+                    status: response.status || 200
+                });
+            });
+        }
+    }
+
+    /**
+     * Hit counts of every fixture mock activated in this scenario
+     */
+    getMockUsage(): MockUsage[] {
+        return this.mockUsage.map(usage => ({ ...usage }));
+    }
+
+    /**
+     * Fixture mocks that were never hit
+     */
+    getUnusedMocks(): MockUsage[] {
+        return this.getMockUsage().filter(usage => usage.hits === 0);
+    }
+
+    /**
+     * Inject random failures into matching requests; returns the seed to reproduce the run
+     */
+    async enableChaos(urlPattern: string | RegExp, options: ChaosOptions): Promise<number> {
+        const monkey = new ChaosMonkey({ faults: config.chaos.faults, ...options });
+        const latency = options.latency ?? config.chaos.latency;
+        const timeout = options.timeout ?? config.chaos.timeout;
+
+        logger.info('Chaos mode enabled', {
+            pattern: urlPattern.toString(),
+            probability: options.probability,
+            seed: monkey.seed
+        });
+
+        const handler = async (route: Route) => {
+            const request = route.request();
+            const decision = monkey.next();
+
+            if (!decision) {
+                await route.fallback();
+                return;
+            }
+
+            const event: ChaosEvent = {
+                url: request.url(),
+                method: request.method(),
+                fault: decision.fault,
+                detail: describeFault(decision, latency, timeout),
+                seed: monkey.seed,
+                sequence: monkey.getSequence(),
+                timestamp: new Date().toISOString()
+            };
+
+            // Recorded before the fault plays out, so slow faults are visible while still pending
+            this.chaosEvents.push(event);
+            logger.warn('Chaos fault injected', {
+                fault: event.fault,
+                detail: event.detail,
+                method: event.method,
+                url: event.url,
+                seed: event.seed,
+                sequence: event.sequence
+            });
+
+            try {
+                switch (decision.fault) {
+                    case 'error':
+                        await route.fulfill({
+                            status: decision.status,
+                            contentType: 'application/json',
+                            body: JSON.stringify({ error: 'Injected by chaos mode' })
+                        });
+                        break;
+                    case 'abort':
+                        await route.abort('connectionreset');
+                        break;
+                    case 'timeout':
+                        await new Promise(resolve => setTimeout(resolve, timeout));
+                        await route.abort('timedout');
+                        break;
+                    case 'truncate': {
+                        const response = await route.fetch();
+                        const body = await response.body();
+                        const headers = { ...response.headers() };
+                        delete headers['content-length'];
+                        event.detail = `body cut to ${Math.floor(body.length / 2)} of ${body.length} bytes`;
+                        await route.fulfill({ response, headers, body: body.subarray(0, Math.floor(body.length / 2)) });
+                        break;
+                    }
+                    case 'latency':
+                        await new Promise(resolve => setTimeout(resolve, latency));
+                        await route.fallback();
+                        break;
+                }
+            } catch (error) {
+                // The page can close while a delayed fault waits; the route is gone by then
+                logger.debug('Chaos fault not completed', { fault: event.fault, url: event.url, error: (error as Error).message });
+            }
+        };
+
+        await this.page.route(urlPattern, handler);
+        this.chaosRoutes.push({ pattern: urlPattern, handler });
+
+        return monkey.seed;
+    }
+
+    /**
+     * Stop injecting failures
+     */
+    async disableChaos(): Promise<void> {
+        for (const { pattern, handler } of this.chaosRoutes) {
+            await this.page.unroute(pattern, handler);
+        }
+        this.chaosRoutes = [];
+        logger.info('Chaos mode disabled');
+    }
+
+    /**
+     * Faults injected so far
+     */
+    getChaosEvents(): ChaosEvent[] {
+        return [...this.chaosEvents];
+    }
+
+    /**
+     * Capture WebSocket frames and Server-Sent Events. Start before navigating so EventSource is instrumented.
+     */
+    async startCapturingSockets(): Promise<void> {
+        logger.info('Starting WebSocket/SSE capture');
+
+        if (!this.socketListener) {
+            this.socketListener = (ws: WebSocket) => {
+                const url = ws.url();
+                logger.debug('WebSocket opened', { url });
+
+                ws.on('framesent', frame => this.recordSocketFrame(url, 'websocket', 'sent', frame.payload));
+                ws.on('framereceived', frame => this.recordSocketFrame(url, 'websocket', 'received', frame.payload));
+                ws.on('close', () => logger.debug('WebSocket closed', { url }));
+            };
+            this.page.on('websocket', this.socketListener);
+        }
+
+        if (!this.sseCaptureInstalled) {
+            await this.page.exposeBinding('__recordServerSentEvent', (_source, url: string, event: string, data: string) => {
+                this.recordSocketFrame(url, 'sse', 'received', data, { event });
+            });
+            await this.page.addInitScript(() => {
+                const win = window as any;
+                const Original = win.EventSource;
+                if (!Original || Original.__captured) {
+                    return;
+                }
+
+                class CapturedEventSource extends Original {
+                    private capturedTypes = new Set<string>();
+
+                    constructor(url: string | URL, init?: EventSourceInit) {
+                        super(url, init);
+                        this.capture('message');
+                    }
+
+                    addEventListener(type: string, listener: any, options?: any): void {
+                        this.capture(type);
+                        super.addEventListener(type, listener, options);
+                    }
+
+                    // Named events only reach listeners registered for their type
+                    private capture(type: string): void {
+                        if (this.capturedTypes.has(type) || type === 'open' || type === 'error') return;
+                        this.capturedTypes.add(type);
+                        super.addEventListener(type, (event: MessageEvent) => {
+                            win.__recordServerSentEvent?.((this as any).url, type, String(event.data));
+                        });
+                    }
+                }
+                (CapturedEventSource as any).__captured = true;
+                win.EventSource = CapturedEventSource;
+            });
+            this.sseCaptureInstalled = true;
+        }
+    }
+
+    /**
+     * Stop capturing WebSocket frames (SSE instrumentation stays until the page closes)
+     */
+    stopCapturingSockets(): void {
+        if (this.socketListener) {
+            this.page.off('websocket', this.socketListener);
+            this.socketListener = undefined;
+        }
+        logger.info('WebSocket capture stopped');
+    }
+
+    /**
+     * Replace a WebSocket server with scripted replies to matching frames
+     */
+    async mockWebSocket(urlPattern: string | RegExp, options: SocketMockOptions): Promise<void> {
+        logger.info('Setting up WebSocket mock', {
+            pattern: urlPattern.toString(),
+            replies: options.replies?.length || 0
+        });
+
+        await this.page.routeWebSocket(urlPattern, ws => {
+            const url = ws.url();
+            this.mockedSockets.push(ws);
+
+            // Forget the socket once the page closes it, so pushes only reach live sockets
+            ws.onClose(() => {
+                this.mockedSockets = this.mockedSockets.filter(socket => socket !== ws);
+                logger.debug('Mocked WebSocket closed', { url });
+            });
+
+            const send = (message: string | object) => {
+                const payload = typeof message === 'string' ? message : JSON.stringify(message);
+                ws.send(payload);
+                this.recordSocketFrame(url, 'websocket', 'received', payload, { mocked: true });
+            };
+
+            options.onConnect?.forEach(send);
+
+            ws.onMessage(message => {
+                const payload = message.toString();
+                this.recordSocketFrame(url, 'websocket', 'sent', payload, { mocked: true });
+
+                const rule = options.replies?.find(candidate => this.matchesSocketPayload(candidate.match, payload));
+                if (!rule) {
+                    logger.debug('No WebSocket mock reply matched', { url, payload });
+                    return;
+                }
+
+                const reply = typeof rule.reply === 'function' ? rule.reply(payload) : rule.reply;
+                if (reply !== undefined) {
+                    (Array.isArray(reply) ? reply : [reply]).forEach(send);
+                }
+            });
+        });
+    }
+
+    /**
+     * Push a server message to every open mocked WebSocket matching the URL
+     */
+    pushWebSocketMessage(message: string | object, urlPattern?: string | RegExp): void {
+        const payload = typeof message === 'string' ? message : JSON.stringify(message);
+        const sockets = this.mockedSockets.filter(ws => !urlPattern || this.matchesUrl(urlPattern, ws.url()));
+
+        if (sockets.length === 0) {
+            throw new Error(`No mocked WebSocket is open${urlPattern ? ` for ${urlPattern}` : ''}`);
+        }
+
+        sockets.forEach(ws => {
+            ws.send(payload);
+            this.recordSocketFrame(ws.url(), 'websocket', 'received', payload, { mocked: true });
+        });
+    }
+
+    /**
+     * URLs of the mocked WebSockets the page still has open
+     */
+    getOpenMockedSockets(): string[] {
+        return this.mockedSockets.map(ws => ws.url());
+    }
+
+    /**
+     * Serve a fixed Server-Sent Events stream
+     */
+    async mockServerSentEvents(urlPattern: string | RegExp, events: ServerSentEvent[]): Promise<void> {
+        logger.info('Setting up SSE mock', { pattern: urlPattern.toString(), events: events.length });
+
+        const body = events.map(event => {
+            const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+            return [
+                event.id !== undefined ? `id: ${event.id}` : '',
+                event.event ? `event: ${event.event}` : '',
+                event.retry !== undefined ? `retry: ${event.retry}` : '',
+                ...data.split('\n').map(line => `data: ${line}`)
+            ].filter(Boolean).join('\n') + '\n\n';
+        }).join('');
+
+        await this.page.route(urlPattern, async (route: Route) => {
+            await route.fulfill({
+                status: 200,
+                contentType: 'text/event-stream',
+                headers: { 'Cache-Control': 'no-cache' },
+                body
+            });
+        });
+    }
+
+    /**
+     * Captured WebSocket frames and Server-Sent Events
+     */
+    getSocketFrames(filter?: {
+        url?: string | RegExp;
+        direction?: SocketFrame['direction'];
+        protocol?: SocketFrame['protocol'];
+    }): SocketFrame[] {
+        return this.socketFrames.filter(frame =>
+            (!filter?.url || this.matchesUrl(filter.url, frame.url)) &&
+            (!filter?.direction || frame.direction === filter.direction) &&
+            (!filter?.protocol || frame.protocol === filter.protocol)
+        );
+    }
+
+    /**
+     * Wait for a frame whose payload matches, checking frames already captured first
+     */
+    async waitForSocketFrame(
+        matcher: SocketMessageMatcher,
+        options?: { direction?: SocketFrame['direction']; timeout?: number }
+    ): Promise<SocketFrame> {
+        const timeout = options?.timeout ?? 10000;
+        const deadline = Date.now() + timeout;
+
+        while (Date.now() <= deadline) {
+            const frame = this.getSocketFrames({ direction: options?.direction })
+                .find(candidate => this.matchesSocketPayload(matcher, candidate.payload));
+            if (frame) {
+                return frame;
+            }
+            await this.page.waitForTimeout(100);
+        }
+
+        throw new Error(
+            `No ${options?.direction || 'sent/received'} socket frame matched ${this.describeMatcher(matcher)} within ${timeout}ms`
+        );
+    }
+
     /**
      * Block requests matching pattern
      */
@@ -275,6 +753,19 @@ export class NetworkHelper {
             downloadThroughput: `${downloadThroughput / 1024}KB/s` 
         });
 
+        const throttler = new Throttler(this.page);
+        if (throttler.isSupported()) {
+            await throttler.emulateNetwork({
+                offline: false,
+                latency: 0,
+                downloadThroughput,
+                uploadThroughput: downloadThroughput
+            });
+            return;
+        }
+
+        // Without CDP, approximate bandwidth by delaying each response by its size
+        logger.warn('Network throttling requires Chromium; falling back to delayed responses');
         await this.page.route('**/*', async (route: Route) => {
             const response = await route.fetch();
             const body = await response.body();
@@ -303,6 +794,53 @@ export class NetworkHelper {
         await this.page.context().setOffline(false);
     }
 
+    /**
+     * Path of a named HAR in the HAR fixture directory
+     */
+    static getHarPath(name: string): string {
+        return path.join(config.har.dir, name.endsWith('.har') ? name : `${name}.har`);
+    }
+
+    /**
+     * Record all traffic of the page to a HAR file, written when the context closes
+     */
+    async recordHar(harPath: string, urlFilter: string | RegExp | undefined = config.har.urlFilter): Promise<void> {
+        logger.info('Recording HAR', { path: harPath, urlFilter });
+
+        fs.mkdirSync(path.dirname(harPath), { recursive: true });
+        await this.page.routeFromHAR(harPath, {
+            update: true,
+            updateContent: 'embed',
+            updateMode: 'full',
+            url: urlFilter
+        });
+
+        this.harRecordingPath = harPath;
+    }
+
+    /**
+     * Serve matching requests from a recorded HAR.
+     * 'abort' fails requests missing from the HAR, 'fallback' sends them to the network.
+     */
+    async replayHar(harPath: string, options?: HarReplayOptions): Promise<void> {
+        const notFound = options?.notFound || config.har.replayNotFound;
+        const url = options?.url ?? config.har.urlFilter;
+
+        if (!fs.existsSync(harPath)) {
+            throw new Error(`HAR file not found: ${harPath}. Record it first with the @record-har tag.`);
+        }
+
+        logger.info('Replaying HAR', { path: harPath, notFound, url });
+        await this.page.routeFromHAR(harPath, { notFound, url });
+    }
+
+    /**
+     * Path of the HAR being recorded, if any
+     */
+    getHarRecordingPath(): string | undefined {
+        return this.harRecordingPath;
+    }
+
     /**
      * Get performance metrics for specific URL
      */
@@ -329,6 +867,54 @@ export class NetworkHelper {
         };
     }
 
+    /**
+     * Store a socket frame and link it to the network log entry of its connection
+     */
+    private recordSocketFrame(
+        url: string,
+        protocol: SocketFrame['protocol'],
+        direction: SocketFrame['direction'],
+        payload: string | Buffer,
+        extra?: { event?: string; mocked?: boolean }
+    ): void {
+        const frame: SocketFrame = {
+            url,
+            protocol,
+            direction,
+            payload: typeof payload === 'string' ? payload : payload.toString('base64'),
+            ...extra,
+            timestamp: new Date().toISOString()
+        };
+        this.socketFrames.push(frame);
+
+        const resourceType = protocol === 'sse' ? 'eventsource' : 'websocket';
+        let log = this.networkLogs.find(entry => entry.url === url && entry.resourceType === resourceType);
+        if (!log) {
+            log = { id: this.nextLogId(), url, method: 'GET', resourceType, timestamp: frame.timestamp };
+            this.networkLogs.push(log);
+        }
+        log.frames = [...(log.frames || []), frame];
+
+        logger.debug('Socket frame captured', { url, protocol, direction, size: frame.payload.length });
+    }
+
+    private matchesSocketPayload(matcher: SocketMessageMatcher, payload: string): boolean {
+        if (typeof matcher === 'function') return matcher(payload);
+        if (typeof matcher === 'string') return payload.includes(matcher);
+        if (matcher instanceof RegExp) return matcher.test(payload);
+        return matchesBody(matcher as Record<string, unknown>, payload);
+    }
+
+    private matchesUrl(pattern: string | RegExp, url: string): boolean {
+        return typeof pattern === 'string' ? url.includes(pattern.replace(/\*/g, '')) : pattern.test(url);
+    }
+
+    private describeMatcher(matcher: SocketMessageMatcher): string {
+        if (typeof matcher === 'function') return 'predicate';
+        if (typeof matcher === 'string' || matcher instanceof RegExp) return String(matcher);
+        return JSON.stringify(matcher);
+    }
+
     /**
      * Format response body for mocking
      */
@@ -344,4 +930,159 @@ export class NetworkHelper {
     exportLogs(): string {
         return JSON.stringify(this.networkLogs, null, 2);
     }
-}
\ No newline at end of file
+
+    /**
+     * Export logs as a HAR 1.2 document
+     */
+    exportHar(): HarDocument {
+        return toHar(this.networkLogs);
+    }
+
+    /**
+     * Write the logs to disk as HAR or JSON, waiting for bodies still being read
+     */
+    async saveLogs(filePath: string, format: 'har' | 'json' = 'har'): Promise<string> {
+        await this.flushPendingBodies();
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(
+            filePath,
+            format === 'har' ? JSON.stringify(this.exportHar(), null, 2) : this.exportLogs()
+        );
+
+        logger.info('Network logs saved', { path: filePath, format, entries: this.networkLogs.length });
+        return filePath;
+    }
+
+    /**
+     * Wait until response bodies of finished requests have been read
+     */
+    async flushPendingBodies(): Promise<void> {
+        await Promise.all([...this.pendingBodies]);
+    }
+
+    private onRequest(request: Request): void {
+        const log: NetworkLog = {
+            id: this.nextLogId(),
+            url: request.url(),
+            method: request.method(),
+            requestHeaders: request.headers(),
+            resourceType: request.resourceType(),
+            timestamp: new Date().toISOString()
+        };
+
+        // Request bodies are always kept (within limits) since request assertions depend on them
+        const postData = request.postDataBuffer();
+        if (postData) {
+            const captured = this.captureBody(postData, request.headers()['content-type'] || 'text/plain');
+            log.requestBody = captured.body;
+            log.requestBodyNote = captured.note;
+        }
+
+        this.networkLogs.push(log);
+        this.requestLogs.set(request, log);
+    }
+
+    private onResponse(response: Response): void {
+        const log = this.requestLogs.get(response.request());
+        if (!log) return;
+
+        log.status = response.status();
+        log.statusText = response.statusText();
+        log.responseHeaders = response.headers();
+    }
+
+    private onRequestFinished(request: Request): void {
+        const log = this.requestLogs.get(request);
+        if (!log) return;
+
+        this.applyTiming(log, request);
+
+        if (!this.captureOptions.captureBodies) return;
+
+        const pending = (async () => {
+            try {
+                const response = await request.response();
+                if (!response) return;
+
+                const contentType = response.headers()['content-type'];
+                if (!this.isCapturedContentType(contentType)) {
+                    log.responseBodyNote = `body skipped (${contentType || 'no content type'})`;
+                    return;
+                }
+
+                const captured = this.captureBody(await response.body(), contentType);
+                log.responseBody = captured.body;
+                log.responseBodyNote = captured.note;
+            } catch (error) {
+                // Bodies of redirects and closed pages cannot be read
+                log.responseBodyNote = `body unavailable: ${(error as Error).message}`;
+            }
+        })();
+
+        this.pendingBodies.add(pending);
+        pending.finally(() => this.pendingBodies.delete(pending));
+    }
+
+    private onRequestFailed(request: Request): void {
+        const log = this.requestLogs.get(request);
+        if (!log) return;
+
+        log.failure = request.failure()?.errorText || 'unknown error';
+        this.applyTiming(log, request);
+        logger.debug('Request failed', { url: log.url, failure: log.failure });
+    }
+
+    private applyTiming(log: NetworkLog, request: Request): void {
+        const timing = request.timing();
+        const phase = (start: number, end: number) => (start >= 0 && end >= 0 ? end - start : -1);
+
+        log.timing = {
+            blocked: phase(0, timing.domainLookupStart >= 0 ? timing.domainLookupStart : timing.requestStart),
+            dns: phase(timing.domainLookupStart, timing.domainLookupEnd),
+            connect: phase(timing.connectStart, timing.connectEnd),
+            ssl: phase(timing.secureConnectionStart, timing.connectEnd),
+            send: 0,
+            wait: phase(timing.requestStart, timing.responseStart),
+            receive: phase(timing.responseStart, timing.responseEnd)
+        };
+        log.duration = timing.responseEnd >= 0
+            ? timing.responseEnd
+            : Date.now() - Date.parse(log.timestamp);
+    }
+
+    private captureBody(body: Buffer, contentType?: string): { body?: string; note?: string } {
+        if (!this.isCapturedContentType(contentType)) {
+            return { note: `body skipped (${contentType || 'no content type'})` };
+        }
+        if (body.length > this.captureOptions.maxBodySize) {
+            return {
+                body: body.subarray(0, this.captureOptions.maxBodySize).toString('utf-8'),
+                note: `body truncated to ${this.captureOptions.maxBodySize} of ${body.length} bytes`
+            };
+        }
+        return { body: body.toString('utf-8') };
+    }
+
+    private isCapturedContentType(contentType?: string): boolean {
+        if (!contentType) return false;
+        return this.captureOptions.bodyContentTypes.some(type => contentType.toLowerCase().includes(type));
+    }
+
+    private nextLogId(): string {
+        return `req-${++this.logSequence}`;
+    }
+}
+
+/**
+ * What a chaos fault does, known before it is applied (truncation fills in the sizes later)
+ */
+function describeFault(decision: ChaosDecision, latency: number, timeout: number): string {
+    switch (decision.fault) {
+        case 'error': return `HTTP ${decision.status}`;
+        case 'abort': return 'connection reset';
+        case 'timeout': return `no response for ${timeout}ms`;
+        case 'truncate': return 'body cut in half';
+        case 'latency': return `delayed ${latency}ms`;
+    }
+}
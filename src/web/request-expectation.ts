@@ -0,0 +1,265 @@
+import type { NetworkLog } from './network-helper';
+
+export class RequestExpectationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RequestExpectationError';
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, RequestExpectationError);
+        }
+    }
+}
+
+interface TimeWindow {
+    start: number;
+    end: number;
+    label: string;
+}
+
+/**
+ * Fluent assertions over captured network logs:
+ *
+ *   network.expectRequest(/cart/).withMethod('POST').withBody({ id: 4 }).times(1)
+ */
+export class RequestExpectation {
+    private method?: string;
+    private query?: Record<string, string>;
+    private body?: Record<string, unknown> | string;
+    private status?: number;
+    private window?: TimeWindow;
+
+    constructor(
+        private pattern: string | RegExp,
+        private getLogs: () => NetworkLog[],
+        private getMark: (name: string) => number | undefined
+    ) { }
+
+    /**
+     * Only match requests with this HTTP method
+     */
+    withMethod(method: string): this {
+        this.method = method.toUpperCase();
+        return this;
+    }
+
+    /**
+     * Only match requests whose query string contains these parameters
+     */
+    withQuery(query: Record<string, string | number | boolean>): this {
+        this.query = Object.fromEntries(Object.entries(query).map(([key, value]) => [key, String(value)]));
+        return this;
+    }
+
+    /**
+     * Only match requests whose JSON body contains this partial object (or whose raw body contains the string)
+     */
+    withBody(body: Record<string, unknown> | string): this {
+        this.body = body;
+        return this;
+    }
+
+    /**
+     * Only match requests that received this response status
+     */
+    withStatus(status: number): this {
+        this.status = status;
+        return this;
+    }
+
+    /**
+     * Only match requests sent within `ms` after a mark set with NetworkHelper.mark()
+     */
+    within(ms: number, afterMark: string): this {
+        const start = this.getMark(afterMark);
+        if (start === undefined) {
+            throw new RequestExpectationError(`Unknown network mark "${afterMark}"`);
+        }
+        this.window = { start, end: start + ms, label: `within ${ms}ms after "${afterMark}"` };
+        return this;
+    }
+
+    /**
+     * Captured requests matching every condition, in request order
+     */
+    matches(): NetworkLog[] {
+        return this.candidates().filter(log => this.mismatches(log).length === 0);
+    }
+
+    /**
+     * Assert exactly n matching requests
+     */
+    times(n: number): NetworkLog[] {
+        const matches = this.matches();
+        if (matches.length !== n) {
+            this.fail(`exactly ${n} request(s)`, matches.length);
+        }
+        return matches;
+    }
+
+    /**
+     * Assert exactly one matching request
+     */
+    once(): NetworkLog {
+        return this.times(1)[0];
+    }
+
+    /**
+     * Assert at least n matching requests
+     */
+    atLeast(n: number): NetworkLog[] {
+        const matches = this.matches();
+        if (matches.length < n) {
+            this.fail(`at least ${n} request(s)`, matches.length);
+        }
+        return matches;
+    }
+
+    /**
+     * Assert no matching request
+     */
+    never(): void {
+        this.times(0);
+    }
+
+    /**
+     * Assert the first matching request was sent before the first request matching `other`
+     */
+    before(other: RequestExpectation): void {
+        const first = this.atLeast(1)[0];
+        const otherFirst = other.atLeast(1)[0];
+
+        if (Date.parse(first.timestamp) > Date.parse(otherFirst.timestamp)) {
+            throw new RequestExpectationError([
+                `Expected ${this.describe()} to happen before ${other.describe()}`,
+                `  ${this.describe()}: ${first.method} ${first.url} at ${first.timestamp}`,
+                `  ${other.describe()}: ${otherFirst.method} ${otherFirst.url} at ${otherFirst.timestamp}`
+            ].join('\n'));
+        }
+    }
+
+    /**
+     * Assert the first matching request was sent after the first request matching `other`
+     */
+    after(other: RequestExpectation): void {
+        other.before(this);
+    }
+
+    /**
+     * Readable summary of the conditions
+     */
+    describe(): string {
+        const parts = [`request to ${this.pattern}`];
+        if (this.method) parts.push(`method ${this.method}`);
+        if (this.query) parts.push(`query ${JSON.stringify(this.query)}`);
+        if (this.body !== undefined) parts.push(`body ${JSON.stringify(this.body)}`);
+        if (this.status !== undefined) parts.push(`status ${this.status}`);
+        if (this.window) parts.push(this.window.label);
+        return parts.join(', ');
+    }
+
+    private candidates(): NetworkLog[] {
+        const regex = typeof this.pattern === 'string' ? new RegExp(this.pattern) : this.pattern;
+        return this.getLogs()
+            .filter(log => regex.test(log.url))
+            .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    }
+
+    /**
+     * Reasons a request does not meet the conditions (empty when it matches)
+     */
+    private mismatches(log: NetworkLog): string[] {
+        const reasons: string[] = [];
+
+        if (this.method && log.method !== this.method) {
+            reasons.push(`method: expected ${this.method}, got ${log.method}`);
+        }
+
+        if (this.query) {
+            const params = new URL(log.url).searchParams;
+            for (const [key, expected] of Object.entries(this.query)) {
+                const actual = params.get(key);
+                if (actual !== expected) {
+                    reasons.push(`query.${key}: expected "${expected}", got ${actual === null ? 'nothing' : `"${actual}"`}`);
+                }
+            }
+        }
+
+        if (this.body !== undefined) {
+            reasons.push(...diffBody(this.body, log.requestBody));
+        }
+
+        if (this.status !== undefined && log.status !== this.status) {
+            reasons.push(`status: expected ${this.status}, got ${log.status ?? 'no response'}`);
+        }
+
+        if (this.window) {
+            const sentAt = Date.parse(log.timestamp);
+            if (sentAt < this.window.start || sentAt > this.window.end) {
+                reasons.push(`time: sent ${sentAt - this.window.start}ms after mark, expected ${this.window.label}`);
+            }
+        }
+
+        return reasons;
+    }
+
+    private fail(expectation: string, found: number): never {
+        const candidates = this.candidates();
+        const lines = [
+            `Expected ${expectation} matching ${this.describe()}, but found ${found}.`,
+            candidates.length === 0
+                ? `No captured requests matched ${this.pattern}. Was network capture started?`
+                : `Captured requests to ${this.pattern} (${candidates.length}):`
+        ];
+
+        candidates.forEach((log, index) => {
+            const reasons = this.mismatches(log);
+            lines.push(`  ${index + 1}. ${log.method} ${log.url} [${log.status ?? 'pending'}]${reasons.length === 0 ? ' ✓ matches' : ''}`);
+            reasons.forEach(reason => lines.push(`       - ${reason}`));
+        });
+
+        throw new RequestExpectationError(lines.join('\n'));
+    }
+}
+
+/**
+ * Differences between an expected partial body and the raw request body
+ */
+function diffBody(expected: Record<string, unknown> | string, raw?: string): string[] {
+    if (raw === undefined || raw === '') {
+        return ['body: expected a request body, got none'];
+    }
+
+    if (typeof expected === 'string') {
+        return raw.includes(expected) ? [] : [`body: expected to contain "${expected}", got ${truncate(raw)}`];
+    }
+
+    let actual: unknown;
+    try {
+        actual = JSON.parse(raw);
+    } catch {
+        return [`body: expected JSON, got ${truncate(raw)}`];
+    }
+
+    return diffPartial(expected, actual, 'body');
+}
+
+function diffPartial(expected: unknown, actual: unknown, path: string): string[] {
+    if (expected === null || typeof expected !== 'object') {
+        return expected === actual
+            ? []
+            : [`${path}: expected ${JSON.stringify(expected)}, got ${actual === undefined ? 'nothing' : JSON.stringify(actual)}`];
+    }
+
+    if (actual === null || typeof actual !== 'object') {
+        return [`${path}: expected ${Array.isArray(expected) ? 'an array' : 'an object'}, got ${JSON.stringify(actual)}`];
+    }
+
+    return Object.entries(expected as Record<string, unknown>).flatMap(([key, value]) =>
+        diffPartial(value, (actual as Record<string, unknown>)[key], Array.isArray(expected) ? `${path}[${key}]` : `${path}.${key}`)
+    );
+}
+
+function truncate(text: string, max: number = 120): string {
+    return text.length > max ? `${JSON.stringify(text.substring(0, max))}…` : JSON.stringify(text);
+}
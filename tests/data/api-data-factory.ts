@@ -0,0 +1,76 @@
+import { ApiClient } from '../../src/api/api-client';
+import { CleanupRegistry } from '../../src/utils/cleanup-registry';
+import { logger } from '../../src/utils/logger';
+import { config } from '../../config/test.config';
+import { DataBuilder, TestData } from './data-managers';
+
+export type ApiResource = Record<string, any>;
+
+/**
+ * Creates prerequisite data through the API and registers a DELETE for each
+ * created resource, so scenarios leave nothing behind on shared environments
+ */
+export class ApiDataFactory {
+    // Fields filled in when a scenario does not set them
+    private static defaults: Record<string, () => Record<string, unknown>> = {
+        user: () => ({
+            name: `Test ${DataBuilder.randomString(6)}`,
+            email: DataBuilder.randomEmail(),
+            role: 'user'
+        }),
+        order: () => ({
+            items: [{ product: TestData.products.backpack, quantity: 1 }],
+            status: 'pending'
+        })
+    };
+
+    constructor(private apiClient: ApiClient, private cleanups: CleanupRegistry) {}
+
+    /**
+     * POST to the resource's endpoint (config.testData.endpoints) and register its deletion
+     */
+    async create<T extends ApiResource = ApiResource>(resource: string, data: Record<string, unknown> = {}): Promise<T> {
+        const endpoint = this.getEndpoint(resource);
+        const payload = { ...ApiDataFactory.defaults[resource]?.(), ...data };
+        const response = await this.apiClient.post(endpoint, payload);
+        await this.apiClient.assertOk(response);
+
+        const created = await this.apiClient.getJsonBody<T>(response);
+        const location = response.headers()['location'];
+        const url = location || (created?.id !== undefined ? `${endpoint}/${created.id}` : undefined);
+
+        if (!url) {
+            logger.warn('Created resource has no id or Location header; it will not be cleaned up', { resource });
+            return created;
+        }
+
+        this.cleanups.register(`DELETE ${url}`, async () => {
+            const deleted = await this.apiClient.delete(url);
+            // Already gone, e.g. the scenario deleted it itself
+            if (!deleted.ok() && deleted.status() !== 404) {
+                throw new Error(`DELETE ${url} returned ${deleted.status()}`);
+            }
+        });
+
+        logger.info('Test data created', { resource, url });
+        return created;
+    }
+
+    async createUser<T extends ApiResource = ApiResource>(overrides?: Record<string, unknown>): Promise<T> {
+        return this.create<T>('user', overrides);
+    }
+
+    async createOrder<T extends ApiResource = ApiResource>(overrides?: Record<string, unknown>): Promise<T> {
+        return this.create<T>('order', overrides);
+    }
+
+    private getEndpoint(resource: string): string {
+        const endpoint = config.testData.endpoints[resource];
+        if (!endpoint) {
+            throw new Error(
+                `No endpoint for test data "${resource}"; known: ${Object.keys(config.testData.endpoints).join(', ')} (TEST_DATA_ENDPOINTS)`
+            );
+        }
+        return endpoint;
+    }
+}
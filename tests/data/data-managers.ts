@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { logger } from '../utils/logger';
+import { logger } from '../../src/utils/logger';
 
 export interface UserCredentials {
     username: string;
@@ -18,6 +18,19 @@ Feature: Advanced Testing Features
     When I compare the page with masked elements ".inventory_item_price,.shopping_cart_badge" as "products-masked"
     Then all visual comparisons should pass
 
+  @visual
+  Scenario: Visual testing with stabilized dynamic content
+    Given I am on the Sauce Demo login page
+    When I login with standard user credentials
+    And I add "Sauce Labs Backpack" to cart
+    And I compare the page visually as "products-stabilized" with placeholders:
+      | .inventory_item_price | $0.00 |
+      | .shopping_cart_badge  | 0     |
+    Then all visual comparisons should pass
+    # The page keeps updating once the placeholders are removed
+    When I add "Sauce Labs Bike Light" to cart
+    Then I should see 2 items in the cart
+
   @visual
   Scenario: Element visual comparison
     Given I am on the products page
@@ -39,6 +52,29 @@ Feature: Advanced Testing Features
     And I generate a performance report
     Then the performance score should be at least 70
 
+  @performance
+  Scenario: Performance budget on repeated measurements
+    Given I am on the Sauce Demo login page
+    When I measure page load performance 10 times
+    Then the performance budget should be met at the p75 percentile:
+      | loadComplete         | 3000 |
+      | firstContentfulPaint | 1800 |
+
+  @performance
+  Scenario: Performance regression against baseline
+    Given I am on the Sauce Demo login page
+    When I generate a performance report
+    Then the performance should not regress against the baseline
+
+  @performance
+  Scenario: Interaction responsiveness after adding to cart
+    Given I am on the Sauce Demo login page
+    When I login with standard user credentials
+    And I add "Sauce Labs Backpack" to cart
+    And I measure page load performance
+    Then the Interaction to Next Paint should be within 200ms
+    And the Total Blocking Time should be within 300ms
+
   @accessibility @wcag
   Scenario: WCAG 2.1 AA Compliance
     Given I am on the Sauce Demo login page
@@ -113,6 +149,14 @@ Feature: Advanced Testing Features
     And I measure page load performance
     Then the page should load within 5000ms
 
+  @performance @mobile @throttle:fast-3g @throttle:mid-tier-mobile
+  Scenario: Performance on a mid-tier mobile profile
+    Given I am using a "Pixel_5" device
+    And I am on the Sauce Demo login page
+    And I login with standard user credentials
+    When I measure page load performance
+    Then the page should load within 10000ms
+
   @accessibility @mobile
   Scenario: Mobile accessibility
     Given I am using a "iPhone_SE" device
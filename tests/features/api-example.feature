@@ -4,18 +4,18 @@ Feature: API Testing Examples
   I want to test APIs
   So that I can verify backend functionality
 
-  @api @smoke
+  @api @smoke @mock-server
   Scenario: GET request returns valid data
     Given I have a valid API authentication token
     When I make a GET request to "/api/users/1"
     Then the API response status should be 200
-    And the API response should be valid JSON
+    And the API response should match schema "user.schema.json"
     And the API response should contain:
       | id    | 1           |
       | name  | John Doe    |
       | email | john@example.com |
 
-  @api
+  @api @mock-server
   Scenario: POST request creates new resource
     Given I have a valid API authentication token
     When I make a POST request to "/api/users" with:
@@ -23,7 +23,141 @@ Feature: API Testing Examples
       | email    | jane@example.com  |
       | role     | admin             |
     Then the API response status should be 201
-    And the API response should be valid JSON
+    And the API response should match schema "user.schema.json"
+
+  @api @mock-server
+  Scenario: Chain requests with saved variables
+    Given I have a valid API authentication token
+    When I make a POST request to "/api/users" with:
+      | name  | Jane Smith       |
+      | email | jane@example.com |
+    And I save the response field "$.id" as "userId"
+    And I save the response header "Location" as "userUrl"
+    When I make a GET request to "${userUrl}"
+    Then the API response status should be 200
+    And the API response should contain:
+      | id   | ${userId}  |
+      | name | Jane Smith |
+
+  @api @mock-server
+  Scenario: Assert on response fields with JSONPath and JSON Pointer
+    Given I have a valid API authentication token
+    When I make a GET request to "/api/users"
+    Then the API response status should be 200
+    And the API response field "$" should have 2 items
+    And the API response field "$[0].id" should be of type integer
+    And the API response field "/1/email" should match "@example\.com$"
+    And the API response field "$[*].role" should contain "admin"
+    And the API response field "$[0].password" should not exist
+    And every item in the API response field "$[?(@.role == 'admin')]" should match:
+      | name | Jane Smith |
+    And some item in the API response field "$" should match:
+      | name | Jane Smith |
+      | role | admin      |
+    When I make a GET request to "/api/users/2"
+    Then the API response should equal JSON ignoring "$.email":
+      """
+      { "id": 2, "name": "Jane Smith", "role": "admin" }
+      """
+
+  @api @mock-server
+  Scenario: Create prerequisite data that is deleted after the scenario
+    Given I have a valid API authentication token
+    And a user exists via the API with:
+      | name | Order Owner |
+    And an order exists via the API with:
+      | userId | ${user.id} |
+    When I make a GET request to "/api/orders/${order.id}"
+    Then the API response status should be 200
+    And the API response field "$.userId" should equal "${user.id}"
+    And the API response field "$.items" should have 1 item
+
+  @api @mock-server
+  Scenario: Switch authentication providers within a scenario
+    When I make a GET request to "/api/users/1"
+    Then the API response status should be 401
+    Given I authenticate to the API using "oauth2-password"
+    When I make a GET request to "/api/users/1"
+    Then the API response status should be 200
+    And the mock API server should have issued 1 token for the password grant
+    When I authenticate to the API using "session"
+    And I make a GET request to "/api/users/2"
+    Then the API response status should be 200
+    And the API response should match schema "user.schema.json"
+    And the mock API server should have started 1 session
+
+  @api @mock-server
+  Scenario: Rejected credentials are renewed and the request retried
+    Given I authenticate to the API using "oauth2-password"
+    When I make a GET request to "/api/users/1"
+    And I make a GET request to "/api/users/2"
+    Then the mock API server should have issued 1 token for the password grant
+    When the mock API server expires all credentials
+    And I make a GET request to "/api/users/1"
+    Then the API response status should be 200
+    And the mock API server should have rejected 1 request as unauthorized
+    And the mock API server should have issued 1 token for the refresh_token grant
+    And the mock API server should have issued 1 token for the password grant
+    When I authenticate to the API using "session"
+    And I make a GET request to "/api/users/1"
+    And the mock API server expires all credentials
+    And I make a GET request to "/api/users/2"
+    Then the API response status should be 200
+    And the mock API server should have rejected 2 requests as unauthorized
+    And the mock API server should have started 2 sessions
+
+  @api @mock-server
+  Scenario: Share an API login with the browser
+    Given I authenticate to the API using "session"
+    When I make a GET request to "/api/users/1"
+    Then the API response status should be 200
+    And the browser should have the cookie "session"
+    When I save the authentication state as "api-session"
+
+  @api
+  Scenario: Reuse a UI login in API calls
+    Given I am on the Sauce Demo login page
+    When I login with standard user credentials
+    Then I should see the products page
+    And the API client should have the cookie "session-username"
+    When I save the authentication state as "ui-session"
+
+  # The standard-user setup logs in and hands its session to this scenario's context
+  @auth-state:standard-user
+  Scenario: Start logged in from a saved UI session
+    When I go straight to the products page
+    Then I should see the products page
+
+  @api @mock-server
+  Scenario: Transient errors are retried
+    When I make a GET request to "/api/reports/daily"
+    Then the API response status should be 200
+    And the API request should have taken 2 attempts
+    And the API response should contain:
+      | ready | true |
+    When I make a GET request to "/api/reports/broken"
+    Then the API response status should be 503
+    And the API request should have taken 3 attempts
+
+  @api @mock-server
+  Scenario: Responses are checked against the OpenAPI contract
+    Given I have a valid API authentication token
+    When I make a GET request to "/api/users/1"
+    Then the last API call should satisfy the OpenAPI contract
+    And the OpenAPI coverage should include "GET /users/{id}"
+    Given API contract violations fail the request
+    Then a GET request to "/api/reports/legacy" should be rejected by the OpenAPI contract with "body /ready: expected type boolean"
+    And the OpenAPI coverage should include "GET /reports/{name}"
+
+  @api @mock-server
+  Scenario: Upload and download files
+    When I upload the file "tests/fixtures/files/users.csv" to "/api/files" as "file"
+    Then the API response status should be 201
+    And the API response field "$.name" should equal "users.csv"
+    And the API response field "$.size" should equal "72"
+    And the API response field "$.sha256" should equal "93b76d30070a6b661803eab6683d9c3cb27b35c90c5ef5a96ff4392fe8df46d0"
+    When I download "/api/files/users.csv" to "test-results/downloads/users.csv"
+    Then the downloaded file should have sha256 checksum "93b76d30070a6b661803eab6683d9c3cb27b35c90c5ef5a96ff4392fe8df46d0"
 
   @network
   Scenario: Verify network requests during UI interaction
@@ -33,6 +167,15 @@ Feature: API Testing Examples
     Then I should see a request to "inventory"
     And the request to "inventory" should have status 200
 
+  @network
+  Scenario: Verify request timing after a UI action
+    Given I am on the Sauce Demo login page
+    When I start capturing network logs
+    And I mark the network timeline as "login"
+    And I login with standard user credentials
+    Then a request to "inventory" should have been made within 5000ms after "login"
+    And no request to "/api/analytics" should have been made
+
   @mock
   Scenario: Mock API response for testing
     Given I mock the API response for "/api/analytics"
@@ -40,6 +183,47 @@ Feature: API Testing Examples
     When I add "Sauce Labs Backpack" to cart
     Then the mocked analytics should be called
 
+  @mocks:product-images
+  Scenario: Mock set loaded from a fixture file
+    Given I am on the Sauce Demo login page
+    When I login with standard user credentials
+    Then I should see the products page
+    And the mock "product image" should have been hit
+
+  @chaos:images=1
+  Scenario: Inventory tolerates failing product images
+    Given I am on the Sauce Demo login page
+    When I login with standard user credentials
+    Then I should see the products page
+    And chaos faults should have been injected into requests to "/static/media/"
+
+  @websocket @mocks:chat-page
+  Scenario: Mock a WebSocket server and capture its frames
+    Given I mock the WebSocket "ws://chat.example.test/socket" replying to "ping" with:
+      """
+      {"type":"pong"}
+      """
+    And I start capturing WebSocket traffic
+    When I open "http://chat.example.test/"
+    And the page opens a WebSocket to "ws://chat.example.test/socket" and sends "ping"
+    Then the page should have received a WebSocket message containing "pong"
+    And a WebSocket message containing "ping" should have been sent
+    And a WebSocket message containing "pong" should have been received
+    When the mocked WebSocket server sends:
+      """
+      {"type":"price","value":42}
+      """
+    Then the page should have received a WebSocket message containing "price"
+    When the page closes its WebSocket
+    Then no mocked WebSocket should be open
+
+  @replay-har:catalog:strict
+  Scenario: Replay recorded traffic from a HAR
+    Given I start capturing network logs
+    When I open "https://shop.example.test/"
+    Then the page should contain the text "Replayed Backpack"
+    And the request to "shop.example.test/api/products" should have status 200
+
   @block
   Scenario: Block third-party requests
     Given I block requests to "analytics.google.com"
@@ -11,6 +11,8 @@ const Locators = {
     ITEM_NAME: '.inventory_item_name'
 } as const;
 
+const URL = 'https://www.saucedemo.com/inventory.html';
+
 /**
  * Products page actions
  */
@@ -20,6 +22,13 @@ export class ProductsPage {
         private actions: WebActions
     ) {}
 
+    /**
+     * Navigate straight to the products page; Sauce Demo sends visitors without a session back to login
+     */
+    async navigateToProducts(): Promise<void> {
+        await this.actions.navigateTo(URL);
+    }
+
     /**
      * Add a product to cart by its name
      * @param productName The name of the product to add
@@ -1,6 +1,13 @@
 import { Given, When, Then } from '@cucumber/cucumber';
 import { expect } from '@playwright/test';
 import { TestWorld } from '../support/world';
+import { config } from '../../config/test.config';
+import { AuthProviderName, createAuthProvider } from '../../src/api/auth-providers';
+import { filePart } from '../../src/api/request-body';
+import { ApiClient } from '../../src/api/api-client';
+import { MockApiServer } from '../../src/api/mock-server';
+import { ContractViolationError, OpenApiContract, formatCheck } from '../../src/api/openapi-contract';
+import { JsonAssertion, JsonType, coerceValue, tableToObject } from '../../src/api/json-assertion';
 
 /**
  * Example API step definitions
@@ -10,20 +17,88 @@ import { TestWorld } from '../support/world';
 Given('I have a valid API authentication token', async function(this: TestWorld) {
     this.scenarioLogger.step('Setting up API authentication');
     
-    // Example: Login via API to get token
-    const response = await this.apiClient.post('/api/auth/login', {
-        username: 'standard_user',
-        password: 'secret_sauce'
-    });
+    // Provider and credentials come from config (API_AUTH and its env vars)
+    this.apiClient.setAuthProvider(createAuthProvider(config.auth.provider));
+    
+    this.scenarioLogger.info('API authentication configured', { provider: config.auth.provider });
+});
+
+Given('I authenticate to the API using {string}', async function(this: TestWorld, provider: string) {
+    this.scenarioLogger.step(`Switching API authentication to ${provider}`);
+    
+    this.apiClient.setAuthProvider(createAuthProvider(provider as AuthProviderName));
+    
+    this.scenarioLogger.info('API authentication provider set', { provider });
+});
+
+When('the mock API server expires all credentials', async function(this: TestWorld) {
+    this.scenarioLogger.step('Expiring mock API tokens and sessions');
+    
+    getMockServer(this).expireCredentials();
+});
+
+Then('the mock API server should have issued {int} token(s) for the {word} grant', async function(this: TestWorld, count: number, grant: string) {
+    const issued = getMockServer(this).getAuthStats().tokenGrants[grant] || 0;
+    
+    expect(issued, `Tokens issued for the ${grant} grant`).toBe(count);
+});
+
+Then('the mock API server should have started {int} session(s)', async function(this: TestWorld, count: number) {
+    expect(getMockServer(this).getAuthStats().sessions, 'Sessions started').toBe(count);
+});
+
+Then('the mock API server should have rejected {int} request(s) as unauthorized', async function(this: TestWorld, count: number) {
+    expect(getMockServer(this).getAuthStats().unauthorized, 'Requests rejected with 401').toBe(count);
+});
+
+Given('a(n) {word} exists via the API', async function(this: TestWorld, resource: string) {
+    this.scenarioLogger.step(`Creating ${resource} via the API`);
+    
+    // Saved as ${<resource>}, e.g. ${user.id}; deleted again after the scenario
+    this.variables.set(resource, await this.testData.create(resource));
+    
+    this.scenarioLogger.info(`Created ${resource}`, { value: this.variables.get(resource) });
+});
+
+Given('a(n) {word} exists via the API with:', async function(this: TestWorld, resource: string, dataTable) {
+    this.scenarioLogger.step(`Creating ${resource} via the API`);
+    
+    this.variables.set(resource, await this.testData.create(resource, tableToJson(this, dataTable.rowsHash())));
+    
+    this.scenarioLogger.info(`Created ${resource}`, { value: this.variables.get(resource) });
+});
+
+When('I save the authentication state as {string}', async function(this: TestWorld, name: string) {
+    this.scenarioLogger.step(`Saving authentication state as ${name}`);
+    
+    // Reused by scenarios tagged @auth-state:<name>
+    const filePath = ApiClient.getStorageStatePath(name);
+    await this.apiClient.saveStorageState(filePath);
+    
+    this.scenarioLogger.info('Authentication state saved', { path: filePath });
+});
 
-    const body = await this.apiClient.getJsonBody(response);
-    const token = body.token;
+When('I share the API session with the browser', async function(this: TestWorld) {
+    this.scenarioLogger.step('Copying API session cookies to the browser');
+    
+    // Only needed with API_SHARE_BROWSER_SESSION=false; a shared client already uses the page's cookies
+    await this.apiClient.shareCookiesWith(this.page.context());
+});
 
-    this.apiClient.setAuthToken(token);
-    this.scenarioLogger.info('API authentication token set');
+Then('the browser should have the cookie {string}', async function(this: TestWorld, name: string) {
+    const cookies = await this.page.context().cookies();
+    
+    expect(cookies.map(cookie => cookie.name), `Browser has no "${name}" cookie`).toContain(name);
+});
+
+Then('the API client should have the cookie {string}', async function(this: TestWorld, name: string) {
+    const { cookies } = await this.apiClient.saveStorageState();
+    
+    expect(cookies.map(cookie => cookie.name), `API client has no "${name}" cookie`).toContain(name);
 });
 
 When('I make a GET request to {string}', async function(this: TestWorld, endpoint: string) {
+    endpoint = this.variables.interpolate(endpoint);
     this.scenarioLogger.step(`Making GET request to ${endpoint}`);
     
     const response = await this.apiClient.get(endpoint);
@@ -37,9 +112,10 @@ When('I make a GET request to {string}', async function(this: TestWorld, endpoin
 });
 
 When('I make a POST request to {string} with:', async function(this: TestWorld, endpoint: string, dataTable) {
+    endpoint = this.variables.interpolate(endpoint);
     this.scenarioLogger.step(`Making POST request to ${endpoint}`);
     
-    const data = dataTable.rowsHash();
+    const data = this.variables.interpolateDeep(dataTable.rowsHash());
     
     const response = await this.apiClient.post(endpoint, data);
     
@@ -50,6 +126,56 @@ When('I make a POST request to {string} with:', async function(this: TestWorld,
     });
 });
 
+When('I upload the file {string} to {string} as {string}', async function(this: TestWorld, filePath: string, endpoint: string, field: string) {
+    endpoint = this.variables.interpolate(endpoint);
+    this.scenarioLogger.step(`Uploading ${filePath} to ${endpoint}`);
+    
+    const response = await this.apiClient.post(endpoint, undefined, {
+        multipart: { [field]: filePart(filePath) }
+    });
+    
+    (this as any).lastApiResponse = response;
+    
+    this.scenarioLogger.info('Upload completed', { status: response.status() });
+});
+
+When('I submit the form to {string} with:', async function(this: TestWorld, endpoint: string, dataTable) {
+    this.scenarioLogger.step(`Submitting form to ${endpoint}`);
+    
+    const response = await this.apiClient.post(this.variables.interpolate(endpoint), undefined, {
+        form: this.variables.interpolateDeep(dataTable.rowsHash())
+    });
+    
+    (this as any).lastApiResponse = response;
+    
+    this.scenarioLogger.info('Form submitted', { status: response.status() });
+});
+
+When('I download {string} to {string}', async function(this: TestWorld, endpoint: string, filePath: string) {
+    this.scenarioLogger.step(`Downloading ${endpoint}`);
+    
+    const download = await this.apiClient.download(this.variables.interpolate(endpoint), filePath);
+    
+    (this as any).lastApiResponse = download.response;
+    (this as any).lastDownload = download;
+    
+    this.scenarioLogger.info('Download completed', { path: download.path, size: download.size });
+});
+
+Then('the downloaded file should have {word} checksum {string}', async function(this: TestWorld, algorithm: string, expected: string) {
+    this.scenarioLogger.step(`Verifying ${algorithm} checksum of the download`);
+    
+    const download = (this as any).lastDownload;
+    
+    if (!download) {
+        throw new Error('No download found. Make sure to download a file first.');
+    }
+
+    this.apiClient.assertChecksum(download.path, expected, algorithm);
+    
+    this.scenarioLogger.info('Download checksum verified');
+});
+
 Then('the API response status should be {int}', async function(this: TestWorld, expectedStatus: number) {
     this.scenarioLogger.step(`Verifying API response status is ${expectedStatus}`);
     
@@ -64,18 +190,27 @@ Then('the API response status should be {int}', async function(this: TestWorld,
     this.scenarioLogger.info(`API response status verified: ${expectedStatus}`);
 });
 
+Then('the API request should have taken {int} attempt(s)', async function(this: TestWorld, count: number) {
+    const response = (this as any).lastApiResponse;
+    
+    if (!response) {
+        throw new Error('No API response found. Make sure to make a request first.');
+    }
+
+    expect(this.apiClient.getAttempts(response).length, 'Attempts made for the last request').toBe(count);
+});
+
 Then('the API response should contain:', async function(this: TestWorld, dataTable) {
     this.scenarioLogger.step('Verifying API response contains expected data');
     
-    const response = (this as any).lastApiResponse;
-    const body = await this.apiClient.getJsonBody(response);
+    const json = await expectJson(this);
     
-    const expectedData = dataTable.rowsHash();
+    const expectedData: Record<string, string> = dataTable.rowsHash();
     
-    for (const [key, expectedValue] of Object.entries(expectedData)) {
-        const actualValue = body[key];
-        expect(actualValue).toBe(expectedValue);
-        this.scenarioLogger.debug(`Verified ${key}: ${actualValue}`);
+    // Keys are field names or paths; numbers, booleans and null in cells are coerced
+    for (const [path, expectedValue] of Object.entries(expectedData)) {
+        json.equals(path, this.variables.interpolateDeep(coerceValue(expectedValue)));
+        this.scenarioLogger.debug(`Verified ${path}: ${expectedValue}`);
     }
     
     this.scenarioLogger.info('API response data verified');
@@ -96,6 +231,158 @@ Then('the API response should be valid JSON', async function(this: TestWorld) {
     }
 });
 
+Then('the API response should match schema {string}', async function(this: TestWorld, schemaName: string) {
+    this.scenarioLogger.step(`Verifying API response matches schema ${schemaName}`);
+    
+    const response = (this as any).lastApiResponse;
+    
+    if (!response) {
+        throw new Error('No API response found. Make sure to make a request first.');
+    }
+
+    await this.apiClient.assertSchema(response, schemaName);
+    
+    this.scenarioLogger.info(`API response matches schema ${schemaName}`);
+});
+
+Given('API contract violations fail the request', async function(this: TestWorld) {
+    getContract(this);
+    this.apiClient.setContractAction('fail');
+    this.scenarioLogger.info('OpenAPI contract violations will fail API requests');
+});
+
+Then('the last API call should satisfy the OpenAPI contract', async function(this: TestWorld) {
+    this.scenarioLogger.step('Verifying the last API call against the OpenAPI contract');
+
+    const check = getContract(this).getChecks().pop();
+
+    expect(check, 'No API call was checked against the OpenAPI contract').toBeDefined();
+    expect(check!.violations, formatCheck(check!)).toEqual([]);
+
+    this.scenarioLogger.info(`OpenAPI contract satisfied for ${check!.operation}`);
+});
+
+Then('a GET request to {string} should be rejected by the OpenAPI contract with {string}', async function(this: TestWorld, endpoint: string, text: string) {
+    this.scenarioLogger.step(`Verifying GET ${endpoint} breaks the OpenAPI contract`);
+
+    const error = await this.apiClient.get(this.variables.interpolate(endpoint)).then(() => undefined, error => error);
+
+    expect(error).toBeInstanceOf(ContractViolationError);
+    expect(error.message).toContain(text);
+
+    this.scenarioLogger.info('OpenAPI contract violation raised');
+});
+
+Then('the OpenAPI coverage should include {string}', async function(this: TestWorld, operation: string) {
+    this.scenarioLogger.step(`Verifying OpenAPI coverage includes ${operation}`);
+
+    const coverage = getContract(this).getCoverage();
+    const exercised = coverage.operations.filter(entry => entry.calls > 0).map(entry => entry.operation);
+
+    expect(exercised).toContain(operation);
+
+    this.scenarioLogger.info(`OpenAPI coverage: ${coverage.exercised}/${coverage.total} operations (${coverage.percent}%)`);
+});
+
+Then('the API response field {string} should equal {string}', async function(this: TestWorld, path: string, expected: string) {
+    this.scenarioLogger.step(`Verifying ${path} equals ${expected}`);
+    
+    (await expectJson(this)).equals(path, this.variables.interpolateDeep(coerceValue(expected)));
+});
+
+Then('the API response field {string} should contain {string}', async function(this: TestWorld, path: string, expected: string) {
+    this.scenarioLogger.step(`Verifying ${path} contains ${expected}`);
+    
+    (await expectJson(this)).contains(path, this.variables.interpolateDeep(coerceValue(expected)));
+});
+
+Then('the API response field {string} should match {string}', async function(this: TestWorld, path: string, pattern: string) {
+    this.scenarioLogger.step(`Verifying ${path} matches ${pattern}`);
+    
+    (await expectJson(this)).matches(path, pattern);
+});
+
+Then('the API response field {string} should be of type {word}', async function(this: TestWorld, path: string, type: string) {
+    this.scenarioLogger.step(`Verifying ${path} is of type ${type}`);
+    
+    (await expectJson(this)).hasType(path, type as JsonType);
+});
+
+Then('the API response field {string} should have {int} item(s)', async function(this: TestWorld, path: string, count: number) {
+    this.scenarioLogger.step(`Verifying ${path} has ${count} item(s)`);
+    
+    (await expectJson(this)).hasLength(path, count);
+});
+
+Then('the API response field {string} should exist', async function(this: TestWorld, path: string) {
+    (await expectJson(this)).exists(path);
+});
+
+Then('the API response field {string} should not exist', async function(this: TestWorld, path: string) {
+    (await expectJson(this)).notExists(path);
+});
+
+/**
+ * Fails when the field is an empty array or a filter path matches nothing
+ */
+Then('every item in the API response field {string} should match:', async function(this: TestWorld, path: string, dataTable) {
+    this.scenarioLogger.step(`Verifying every item in ${path} matches the table`);
+    
+    (await expectJson(this)).every(path, tableToJson(this, dataTable.rowsHash()));
+});
+
+Then('some item in the API response field {string} should match:', async function(this: TestWorld, path: string, dataTable) {
+    this.scenarioLogger.step(`Verifying some item in ${path} matches the table`);
+    
+    (await expectJson(this)).some(path, tableToJson(this, dataTable.rowsHash()));
+});
+
+Then('the API response should equal JSON:', async function(this: TestWorld, expected: string) {
+    this.scenarioLogger.step('Verifying API response equals JSON');
+    
+    (await expectJson(this)).equals('$', this.variables.interpolateDeep(JSON.parse(expected)));
+});
+
+Then('the API response should equal JSON ignoring {string}:', async function(this: TestWorld, ignored: string, expected: string) {
+    this.scenarioLogger.step(`Verifying API response equals JSON, ignoring ${ignored}`);
+    
+    const paths = ignored.split(',').map(path => path.trim()).filter(Boolean);
+    (await expectJson(this)).ignoring(...paths).equals('$', this.variables.interpolateDeep(JSON.parse(expected)));
+});
+
+When('I save the response field {string} as {string}', async function(this: TestWorld, jsonPath: string, name: string) {
+    this.scenarioLogger.step(`Saving response field ${jsonPath} as ${name}`);
+    
+    const response = (this as any).lastApiResponse;
+    
+    if (!response) {
+        throw new Error('No API response found. Make sure to make a request first.');
+    }
+
+    this.variables.set(name, await this.apiClient.extractField(response, jsonPath));
+    
+    this.scenarioLogger.info(`Saved ${name}`, { value: this.variables.get(name) });
+});
+
+When('I save the response header {string} as {string}', async function(this: TestWorld, header: string, name: string) {
+    this.scenarioLogger.step(`Saving response header ${header} as ${name}`);
+    
+    const response = (this as any).lastApiResponse;
+    
+    if (!response) {
+        throw new Error('No API response found. Make sure to make a request first.');
+    }
+
+    this.variables.set(name, this.apiClient.extractHeader(response, header));
+    
+    this.scenarioLogger.info(`Saved ${name}`, { value: this.variables.get(name) });
+});
+
+Given('I set the variable {string} to {string}', async function(this: TestWorld, name: string, value: string) {
+    this.variables.set(name, this.variables.interpolate(value));
+    this.scenarioLogger.info(`Variable ${name} set`);
+});
+
 // Network interception examples
 
 Given('I mock the API response for {string}', async function(this: TestWorld, urlPattern: string) {
@@ -113,6 +400,63 @@ Given('I mock the API response for {string}', async function(this: TestWorld, ur
     this.scenarioLogger.info('API mock configured');
 });
 
+Given('I use the {string} mock set', async function(this: TestWorld, mockSet: string) {
+    this.scenarioLogger.step(`Activating mock set ${mockSet}`);
+    
+    await this.networkHelper.useMockSet(mockSet);
+    
+    this.scenarioLogger.info('Mock set activated');
+});
+
+Then('the mock {string} should have been hit', async function(this: TestWorld, mockName: string) {
+    this.scenarioLogger.step(`Verifying mock ${mockName} was hit`);
+    
+    const usage = this.networkHelper.getMockUsage().find(mock => mock.name === mockName);
+    
+    expect(usage, `No mock named "${mockName}" is active`).toBeDefined();
+    expect(usage!.hits).toBeGreaterThan(0);
+    
+    this.scenarioLogger.info(`Mock ${mockName} hit ${usage!.hits} time(s)`);
+});
+
+Then('all mocks should have been used', async function(this: TestWorld) {
+    this.scenarioLogger.step('Verifying all mocks were used');
+    
+    const unused = this.networkHelper.getUnusedMocks();
+    
+    expect(unused.map(mock => `${mock.set}: ${mock.name}`)).toEqual([]);
+    
+    this.scenarioLogger.info('All mocks were used');
+});
+
+Given('I enable chaos on {string} with probability {float}', async function(this: TestWorld, pattern: string, probability: number) {
+    this.scenarioLogger.step(`Enabling chaos on ${pattern} (p=${probability})`);
+    
+    const seed = await this.networkHelper.enableChaos(pattern, { probability, seed: config.chaos.seed });
+    
+    this.scenarioLogger.info('Chaos mode enabled', { seed });
+});
+
+Given('I disable chaos', async function(this: TestWorld) {
+    this.scenarioLogger.step('Disabling chaos');
+    
+    await this.networkHelper.disableChaos();
+    
+    this.scenarioLogger.info('Chaos mode disabled');
+});
+
+Then('chaos faults should have been injected into requests to {string}', async function(this: TestWorld, urlPart: string) {
+    this.scenarioLogger.step(`Verifying chaos faults were injected into ${urlPart}`);
+    
+    const getEvents = () => this.networkHelper.getChaosEvents().filter(event => event.url.includes(urlPart));
+    
+    // Matching requests may still be on their way when the page is ready
+    await expect.poll(() => getEvents().length, { message: `No chaos fault was injected into a request to ${urlPart}` }).toBeGreaterThan(0);
+    
+    const events = getEvents();
+    this.scenarioLogger.info(`Chaos faults injected: ${events.map(event => `${event.fault} (${event.detail})`).join(', ')}`);
+});
+
 Given('I block requests to {string}', async function(this: TestWorld, pattern: string) {
     this.scenarioLogger.step(`Blocking requests to ${pattern}`);
     
@@ -129,6 +473,83 @@ When('I start capturing network logs', async function(this: TestWorld) {
     this.scenarioLogger.info('Network logging started');
 });
 
+When('I start capturing WebSocket traffic', async function(this: TestWorld) {
+    this.scenarioLogger.step('Starting WebSocket/SSE capture');
+    
+    await this.networkHelper.startCapturingSockets();
+    
+    this.scenarioLogger.info('WebSocket capture started');
+});
+
+Given('I mock the WebSocket {string} replying to {string} with:', async function(this: TestWorld, urlPattern: string, match: string, reply: string) {
+    this.scenarioLogger.step(`Mocking WebSocket ${urlPattern}`);
+    
+    await this.networkHelper.mockWebSocket(urlPattern, {
+        replies: [{ match, reply }]
+    });
+    
+    this.scenarioLogger.info('WebSocket mock configured');
+});
+
+When('the mocked WebSocket server sends:', async function(this: TestWorld, message: string) {
+    this.scenarioLogger.step('Pushing message from mocked WebSocket server');
+    
+    this.networkHelper.pushWebSocketMessage(message);
+    
+    this.scenarioLogger.info('WebSocket message pushed');
+});
+
+When('the page opens a WebSocket to {string} and sends {string}', async function(this: TestWorld, url: string, message: string) {
+    this.scenarioLogger.step(`Opening a WebSocket to ${url} from the page`);
+    
+    // Messages the page receives are kept on window so later steps can check them
+    await this.page.evaluate(({ url, message }) => new Promise<void>((resolve, reject) => {
+        const win = window as any;
+        const socket = new WebSocket(url);
+        win.__testSocket = socket;
+        win.__testSocketMessages = [];
+        socket.addEventListener('message', event => win.__testSocketMessages.push(String(event.data)));
+        socket.addEventListener('open', () => {
+            socket.send(message);
+            resolve();
+        });
+        socket.addEventListener('error', () => reject(new Error(`WebSocket ${url} could not be opened`)));
+    }), { url, message });
+    
+    this.scenarioLogger.info('WebSocket opened and message sent', { message });
+});
+
+When('the page closes its WebSocket', async function(this: TestWorld) {
+    await this.page.evaluate(() => (window as any).__testSocket?.close());
+    this.scenarioLogger.info('WebSocket closed by the page');
+});
+
+Then('the page should have received a WebSocket message containing {string}', async function(this: TestWorld, text: string) {
+    this.scenarioLogger.step(`Verifying the page received a WebSocket message containing "${text}"`);
+    
+    await expect.poll(
+        () => this.page.evaluate(() => ((window as any).__testSocketMessages || []) as string[]),
+        { message: `The page received no WebSocket message containing "${text}"` }
+    ).toContainEqual(expect.stringContaining(text));
+});
+
+Then('no mocked WebSocket should be open', async function(this: TestWorld) {
+    await expect.poll(() => this.networkHelper.getOpenMockedSockets()).toEqual([]);
+    this.scenarioLogger.info('All mocked WebSockets are closed');
+});
+
+Then('a WebSocket message containing {string} should have been {word}', async function(this: TestWorld, text: string, direction: string) {
+    this.scenarioLogger.step(`Verifying a WebSocket message containing "${text}" was ${direction}`);
+    
+    if (direction !== 'sent' && direction !== 'received') {
+        throw new Error(`Direction must be "sent" or "received", got "${direction}"`);
+    }
+    
+    const frame = await this.networkHelper.waitForSocketFrame(text, { direction, timeout: 5000 });
+    
+    this.scenarioLogger.info('WebSocket message found', { url: frame.url, payload: frame.payload });
+});
+
 Then('I should see a request to {string}', async function(this: TestWorld, urlPattern: string) {
     this.scenarioLogger.step(`Verifying request was made to ${urlPattern}`);
     
@@ -139,6 +560,68 @@ Then('I should see a request to {string}', async function(this: TestWorld, urlPa
     this.scenarioLogger.info(`Found ${logs.length} request(s) to ${urlPattern}`);
 });
 
+When('I save the network log to {string}', async function(this: TestWorld, filePath: string) {
+    this.scenarioLogger.step(`Saving network log to ${filePath}`);
+    
+    const format = filePath.endsWith('.json') ? 'json' : 'har';
+    await this.networkHelper.saveLogs(filePath, format);
+    
+    this.scenarioLogger.info('Network log saved', { path: filePath, format });
+});
+
+When('I mark the network timeline as {string}', async function(this: TestWorld, name: string) {
+    this.networkHelper.mark(name);
+    this.scenarioLogger.info(`Network mark set: ${name}`);
+});
+
+Then('a {word} request to {string} should have been made {int} time(s)', async function(this: TestWorld, method: string, urlPattern: string, count: number) {
+    this.scenarioLogger.step(`Verifying ${method} ${urlPattern} was requested ${count} time(s)`);
+    
+    this.networkHelper.expectRequest(urlPattern).withMethod(method).times(count);
+    
+    this.scenarioLogger.info('Request count verified');
+});
+
+Then('a {word} request to {string} should have been made with body:', async function(this: TestWorld, method: string, urlPattern: string, body: string) {
+    this.scenarioLogger.step(`Verifying ${method} ${urlPattern} body`);
+    
+    this.networkHelper.expectRequest(urlPattern).withMethod(method).withBody(JSON.parse(body)).atLeast(1);
+    
+    this.scenarioLogger.info('Request body verified');
+});
+
+Then('a request to {string} should have been made with query:', async function(this: TestWorld, urlPattern: string, dataTable) {
+    this.scenarioLogger.step(`Verifying query parameters of ${urlPattern}`);
+    
+    this.networkHelper.expectRequest(urlPattern).withQuery(dataTable.rowsHash()).atLeast(1);
+    
+    this.scenarioLogger.info('Request query verified');
+});
+
+Then('a request to {string} should have been made within {int}ms after {string}', async function(this: TestWorld, urlPattern: string, ms: number, mark: string) {
+    this.scenarioLogger.step(`Verifying ${urlPattern} was requested within ${ms}ms after "${mark}"`);
+    
+    this.networkHelper.expectRequest(urlPattern).within(ms, mark).atLeast(1);
+    
+    this.scenarioLogger.info('Request timing verified');
+});
+
+Then('the request to {string} should happen before the request to {string}', async function(this: TestWorld, first: string, second: string) {
+    this.scenarioLogger.step(`Verifying ${first} is requested before ${second}`);
+    
+    this.networkHelper.expectRequest(first).before(this.networkHelper.expectRequest(second));
+    
+    this.scenarioLogger.info('Request order verified');
+});
+
+Then('no request to {string} should have been made', async function(this: TestWorld, urlPattern: string) {
+    this.scenarioLogger.step(`Verifying no request to ${urlPattern}`);
+    
+    this.networkHelper.expectRequest(urlPattern).never();
+    
+    this.scenarioLogger.info('No request made');
+});
+
 Then('the request to {string} should have status {int}', async function(this: TestWorld, urlPattern: string, expectedStatus: number) {
     this.scenarioLogger.step(`Verifying request to ${urlPattern} returned status ${expectedStatus}`);
     
@@ -150,4 +633,33 @@ Then('the request to {string} should have status {int}', async function(this: Te
     expect(log.status).toBe(expectedStatus);
     
     this.scenarioLogger.info(`Request status verified: ${expectedStatus}`);
-});
\ No newline at end of file
+});
+
+async function expectJson(world: TestWorld): Promise<JsonAssertion> {
+    const response = (world as any).lastApiResponse;
+    
+    if (!response) {
+        throw new Error('No API response found. Make sure to make a request first.');
+    }
+
+    return world.apiClient.expectJson(response);
+}
+
+function tableToJson(world: TestWorld, rows: Record<string, string>): Record<string, unknown> {
+    const coerced = Object.fromEntries(Object.entries(rows).map(([key, value]) => [key, coerceValue(value)]));
+    return world.variables.interpolateDeep(tableToObject(coerced));
+}
+
+function getMockServer(world: TestWorld): MockApiServer {
+    if (!world.mockServer) {
+        throw new Error('No mock API server is running. Tag the scenario with @mock-server or set MOCK_SERVER=always.');
+    }
+    return world.mockServer;
+}
+
+function getContract(world: TestWorld): OpenApiContract {
+    if (!world.contract) {
+        throw new Error(`OpenAPI contract checks are off; set API_CONTRACT_ACTION and make sure ${config.api.openApiSpec} exists.`);
+    }
+    return world.contract;
+}
@@ -14,6 +14,26 @@ When('I login with standard user credentials', async function(this: TestWorld) {
     this.scenarioLogger.info('Login credentials submitted');
 });
 
+When('I go straight to the products page', async function(this: TestWorld) {
+    this.scenarioLogger.step('Navigating to the products page without logging in');
+    await this.productsPage.navigateToProducts();
+    this.scenarioLogger.info('Products page requested');
+});
+
+When('I open {string}', async function(this: TestWorld, url: string) {
+    url = this.variables.interpolate(url);
+    this.scenarioLogger.step(`Opening ${url}`);
+    await this.webActions.navigateTo(url);
+    this.scenarioLogger.info('Page opened');
+});
+
+Then('the page should contain the text {string}', async function(this: TestWorld, text: string) {
+    text = this.variables.interpolate(text);
+    this.scenarioLogger.step(`Verifying the page contains "${text}"`);
+    await expect(this.page.locator('body')).toContainText(text);
+    this.scenarioLogger.info('Text found on the page');
+});
+
 Then('I should see the products page', async function(this: TestWorld) {
     this.scenarioLogger.step('Verifying products page is displayed');
     const isOnProductsPage = await this.loginPage.isLoggedIn();
@@ -22,6 +42,7 @@ Then('I should see the products page', async function(this: TestWorld) {
 });
 
 When('I add {string} to cart', async function(this: TestWorld, productName: string) {
+    productName = this.variables.interpolate(productName);
     this.scenarioLogger.step(`Adding product "${productName}" to cart`);
     await this.productsPage.addToCart(productName);
     this.scenarioLogger.info(`Product "${productName}" added to cart`);
@@ -34,6 +55,7 @@ When('I click on cart icon', async function(this: TestWorld) {
 });
 
 Then('I should see {string} in my cart', async function(this: TestWorld, productName: string) {
+    productName = this.variables.interpolate(productName);
     this.scenarioLogger.step(`Verifying "${productName}" is in the cart`);
     const items = await this.cartPage.getCartItems();
     const item = items.find(item => item.name === productName);
@@ -55,7 +77,7 @@ When('I proceed to checkout', async function(this: TestWorld) {
 
 When('I fill checkout information with following details:', async function(this: TestWorld, dataTable: { rawTable: string[][] }) {
     const [_, data] = dataTable.rawTable;
-    const [firstName, lastName, postalCode] = data;
+    const [firstName, lastName, postalCode] = data.map(value => this.variables.interpolate(value));
     
     this.scenarioLogger.step(`Filling checkout information: ${firstName} ${lastName}, ${postalCode}`);
     await this.cartPage.fillCheckoutInfo(firstName, lastName, postalCode);
@@ -0,0 +1,59 @@
+import { Browser, Page } from '@playwright/test';
+import { LoginPage } from '../pages/login.page';
+import { WebActions } from '../../src/web/actions';
+import { ApiClient, StorageState } from '../../src/api/api-client';
+import { getBrowserContextOptions } from '../../config/test.config';
+import { logger } from '../../src/utils/logger';
+import path from 'path';
+import fs from 'fs';
+
+/**
+ * Logins behind @auth-state:<name>. A named setup runs before every tagged scenario,
+ * so the scenario never depends on another one (or an old run) having saved the state.
+ */
+const authStateSetups: Record<string, (page: Page) => Promise<void>> = {
+    'standard-user': async page => {
+        const loginPage = new LoginPage(page, new WebActions(page));
+        await loginPage.navigateToLogin();
+        await loginPage.login('standard_user', 'secret_sauce');
+
+        if (!await loginPage.isLoggedIn()) {
+            throw new Error('Login as standard_user failed while preparing its authentication state');
+        }
+    }
+};
+
+/**
+ * Storage state for @auth-state:<name>: a fresh login when a setup exists, otherwise the
+ * file saved with "I save the authentication state as <name>".
+ * Fresh states are returned in memory; the file written alongside is only for inspection,
+ * so parallel workers never read each other's half-written files.
+ */
+export async function prepareAuthState(browser: Browser, name: string): Promise<string | StorageState> {
+    const filePath = ApiClient.getStorageStatePath(name);
+    const setup = authStateSetups[name];
+
+    if (!setup) {
+        if (!fs.existsSync(filePath)) {
+            throw new Error(
+                `No saved authentication state at ${filePath} for @auth-state:${name}; ` +
+                `save one with "I save the authentication state as <name>" or add a setup for it`
+            );
+        }
+        return filePath;
+    }
+
+    const context = await browser.newContext({ ...getBrowserContextOptions(), recordVideo: undefined });
+    try {
+        await setup(await context.newPage());
+        const state = await context.storageState();
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(state, null, 2));
+        logger.info('Authentication state prepared', { name, path: filePath, cookies: state.cookies.length });
+
+        return state;
+    } finally {
+        await context.close();
+    }
+}
@@ -3,6 +3,8 @@ import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
 import { logger, logTestSummary } from '../../src/utils/logger';
+import { PerformanceHistory, PerformanceTrend } from '../../src/performance/performance-history';
+import { ContractCoverage, OperationCoverage, OpenApiContract } from '../../src/api/openapi-contract';
 
 interface TestStats {
     total: number;
@@ -166,7 +168,9 @@ export class CustomReporter extends Formatter {
             },
             scenarios: this.scenarios,
             slowestScenarios: this.getTopSlowScenarios(5),
-            failedScenarios: this.scenarios.filter(s => s.status === 'failed')
+            failedScenarios: this.scenarios.filter(s => s.status === 'failed'),
+            performanceTrends: new PerformanceHistory().getTrends(),
+            contractCoverage: this.getContractCoverage()
         };
 
         // Save JSON report
@@ -180,12 +184,36 @@ export class CustomReporter extends Formatter {
         logger.info('HTML summary generated', { path: htmlPath });
     }
 
+    /**
+     * Merge the OpenAPI checks written by each worker during this run
+     */
+    private getContractCoverage(): ContractCoverage | undefined {
+        const checks = OpenApiContract.readResults(undefined, this.stats.startTime);
+        const contract = checks.length > 0 ? OpenApiContract.loadConfigured() : undefined;
+        return contract?.getCoverage(checks);
+    }
+
     private getTopSlowScenarios(count: number): ScenarioResult[] {
         return [...this.scenarios]
             .sort((a, b) => b.duration - a.duration)
             .slice(0, count);
     }
 
+    private renderSparkline(values: number[]): string {
+        if (values.length < 2) return '';
+
+        const max = Math.max(...values);
+        const min = Math.min(...values);
+        const range = max - min || 1;
+        const points = values
+            .map((value, i) => `${(i / (values.length - 1)) * 100},${20 - ((value - min) / range) * 20}`)
+            .join(' ');
+
+        return `<svg width="100" height="20" viewBox="0 0 100 20" preserveAspectRatio="none">
+            <polyline points="${points}" fill="none" stroke="#667eea" stroke-width="1.5"/>
+        </svg>`;
+    }
+
     private generateHtmlSummary(report: any): string {
         const passRate = report.summary.successRate;
         const passColor = parseFloat(passRate) >= 80 ? 'green' : 
@@ -372,6 +400,88 @@ export class CustomReporter extends Formatter {
             </tbody>
         </table>
 
+        ${report.performanceTrends.length > 0 ? `
+        <h2 style="margin-top: 40px;">📈 Performance Trends</h2>
+        <table>
+            <thead>
+                <tr>
+                    <th>Page</th>
+                    <th>Browser / Device</th>
+                    <th>Metric</th>
+                    <th>Trend</th>
+                    <th>Latest</th>
+                    <th>Baseline</th>
+                    <th>Change</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${report.performanceTrends.map((t: PerformanceTrend) => `
+                    <tr>
+                        <td>${t.url}</td>
+                        <td>${t.browser} / ${t.device}</td>
+                        <td>${t.metric}</td>
+                        <td>${this.renderSparkline(t.values)}</td>
+                        <td>${t.latest.toFixed(2)}</td>
+                        <td>${t.baseline.toFixed(2)} (${t.statistic})</td>
+                        <td class="${t.changePercent > 0 ? 'failed' : 'passed'}">
+                            ${t.changePercent > 0 ? '+' : ''}${t.changePercent.toFixed(1)}%
+                        </td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+        ` : ''}
+
+        ${report.contractCoverage ? `
+        <h2 style="margin-top: 40px;">🧾 API Contract Coverage</h2>
+        <p>
+            ${report.contractCoverage.exercised} of ${report.contractCoverage.total} operations exercised
+            (${report.contractCoverage.percent}%) in ${report.contractCoverage.spec};
+            ${report.contractCoverage.violations.length} contract violation(s),
+            ${report.contractCoverage.undocumented.length} undocumented call(s)
+        </p>
+        <table>
+            <thead>
+                <tr>
+                    <th>Operation</th>
+                    <th>Calls</th>
+                    <th>Statuses</th>
+                    <th>Violations</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${report.contractCoverage.operations.map((o: OperationCoverage) => `
+                    <tr>
+                        <td>${o.operation}</td>
+                        <td class="${o.calls > 0 ? 'passed' : 'skipped'}">${o.calls}</td>
+                        <td>${o.statuses.join(', ')}</td>
+                        <td class="${o.violations > 0 ? 'failed' : ''}">${o.violations}</td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+        ${[...report.contractCoverage.violations, ...report.contractCoverage.undocumented].length > 0 ? `
+        <table>
+            <thead>
+                <tr>
+                    <th>Request</th>
+                    <th>Source</th>
+                    <th>Violations</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${[...report.contractCoverage.violations, ...report.contractCoverage.undocumented].map(c => `
+                    <tr>
+                        <td>${c.method} ${c.url} (${c.status})</td>
+                        <td>${c.source}</td>
+                        <td>${c.violations.join('<br>')}</td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+        ` : ''}
+        ` : ''}
+
         <div class="metadata">
             <h3 style="margin-bottom: 15px;">📋 Test Metadata</h3>
             <p><strong>Environment:</strong> ${report.summary.environment}</p>
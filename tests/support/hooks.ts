@@ -1,13 +1,27 @@
 import { Before, After, BeforeAll, AfterAll, Status, setDefaultTimeout } from '@cucumber/cucumber';
 import { Browser, chromium, firefox, webkit } from '@playwright/test';
 import { CustomWorld } from './world';
+import { NetworkHelper } from '../../src/web/network-helper';
 import { config, getBrowserLaunchOptions, getBrowserContextOptions } from '../../config/test.config';
 import { logger, ScenarioLogger } from '../../src/utils/logger';
+import { VisualReview } from '../../src/visual/visual-review';
+import { installWebVitalsObservers } from '../../src/performance/web-vitals-observer';
+import { ThrottlingProfileName } from '../../src/performance/throttler';
+import { MockApiServer } from '../../src/api/mock-server';
+import { prepareAuthState } from './auth-states';
+import { clearTokenCache } from '../../src/api/auth-providers';
+import { OpenApiContract, formatCheck } from '../../src/api/openapi-contract';
+import { CleanupError, formatCleanupFailures } from '../../src/utils/cleanup-registry';
 import path from 'path';
 import fs from 'fs';
 
 let browser: Browser;
 let scenarioLogger: ScenarioLogger;
+let mockServer: MockApiServer | undefined;
+let contract: OpenApiContract | undefined;
+
+// One seed per run; rerun with CHAOS_SEED set to it to replay the same faults
+const chaosRunSeed = config.chaos.seed || String(Date.now());
 
 // Set default timeout from config
 setDefaultTimeout(config.timeout);
@@ -37,6 +51,14 @@ BeforeAll(async function() {
                 browser = await chromium.launch(launchOptions);
                 logger.info('Chromium browser launched');
         }
+
+        if (config.mockServer.mode === 'always') {
+            mockServer = new MockApiServer();
+            await mockServer.start();
+        }
+
+        // One contract per worker so coverage accumulates across scenarios
+        contract = OpenApiContract.loadConfigured();
     } catch (error) {
         logger.error('Failed to launch browser', { error });
         throw error;
@@ -53,9 +75,18 @@ Before(async function(this: CustomWorld, { pickle, gherkinDocument }) {
     scenarioLogger.info('Starting scenario');
     
     try {
+        const tags = pickle.tags.map(t => t.name);
+
+        // Saved session from @auth-state:<name>, so pages (and ApiClient) start logged in
+        const authStateTag = tags.find(name => name.startsWith('@auth-state:'));
+        const storageState = authStateTag ? await prepareAuthState(browser, authStateTag.substring('@auth-state:'.length)) : undefined;
+
         // Create browser context with configuration
         const contextOptions = getBrowserContextOptions();
-        const context = await browser.newContext(contextOptions);
+        const context = await browser.newContext({ ...contextOptions, storageState });
+
+        // Observers must exist before the first navigation to see TBT, LCP and CLS entries
+        await installWebVitalsObservers(context);
 
         // Start tracing if enabled
         if (config.trace.enabled) {
@@ -112,13 +143,82 @@ Before(async function(this: CustomWorld, { pickle, gherkinDocument }) {
             }
         });
 
+        // Local mock API server; started once and reset so each scenario sees the fixture data
+        let apiBaseURL: string | undefined;
+        if (config.mockServer.mode === 'always' || (config.mockServer.mode === 'tag' && tags.includes('@mock-server'))) {
+            mockServer = mockServer || new MockApiServer();
+            apiBaseURL = await mockServer.start();
+            mockServer.reset();
+            // Tokens the reset server issued are no longer valid
+            clearTokenCache();
+            scenarioLogger.info('Using mock API server', { baseURL: apiBaseURL });
+        }
+
         // Initialize World with page and logger
-        await this.initialize(page, scenarioLogger);
+        await this.initialize(page, scenarioLogger, {
+            apiBaseURL,
+            contract,
+            storageState,
+            mockServer: apiBaseURL ? mockServer : undefined
+        });
 
         scenarioLogger.info('Browser context and page initialized');
 
+        // Every scenario keeps a network log so a failure always gets a HAR attached.
+        // Response bodies are left out unless UI contract checks need them; "I start capturing network logs" adds them.
+        if (config.network.attachOnFailure) {
+            this.networkHelper.startCapturingLogs({ captureBodies: config.api.contractUi && config.network.captureBodies });
+        }
+
+        // Apply throttling profiles from @throttle:<profile> tags
+        for (const tag of tags.filter(name => name.startsWith('@throttle:'))) {
+            await this.throttler.apply(tag.substring('@throttle:'.length) as ThrottlingProfileName);
+            scenarioLogger.info('Throttling profile applied from tag', { tag });
+        }
+
+        // Fixture mock sets from @mocks:<name> tags
+        for (const tag of tags.filter(name => name.startsWith('@mocks:'))) {
+            await this.networkHelper.useMockSet(tag.substring('@mocks:'.length));
+            scenarioLogger.info('Mock set activated from tag', { tag });
+        }
+
+        // Chaos mode from @chaos:<target>=<probability> tags, seeded per scenario
+        for (const tag of tags.filter(name => name.startsWith('@chaos:'))) {
+            const match = tag.match(/^@chaos:([\w-]+)=([\d.]+)$/);
+            const target = match && config.chaos.targets[match[1]];
+            if (!target) {
+                throw new Error(
+                    `Invalid chaos tag ${tag}; expected @chaos:<target>=<probability> with target in ${Object.keys(config.chaos.targets).join(', ')}`
+                );
+            }
+
+            const seed = await this.networkHelper.enableChaos(target, {
+                probability: parseFloat(match![2]),
+                seed: `${chaosRunSeed}:${scenarioName}`
+            });
+            scenarioLogger.info('Chaos mode enabled from tag', { tag, seed, reproduce: `CHAOS_SEED=${chaosRunSeed}` });
+        }
+
+        // HAR replay (@replay-har:<name>[:strict]) or recording (@record-har[:<name>])
+        const replayTag = tags.find(name => name.startsWith('@replay-har:'));
+        const recordTag = tags.find(name => name === '@record-har' || name.startsWith('@record-har:'));
+        if (replayTag) {
+            const [, harName, mode] = replayTag.split(':');
+            await this.networkHelper.replayHar(NetworkHelper.getHarPath(harName), {
+                notFound: mode === 'strict' ? 'abort' : mode === 'fallback' ? 'fallback' : undefined
+            });
+            scenarioLogger.info('Replaying HAR from tag', { tag: replayTag });
+        } else if (recordTag) {
+            const harName = recordTag.split(':')[1] || sanitizeFileName(scenarioName);
+            await this.networkHelper.recordHar(NetworkHelper.getHarPath(harName));
+            scenarioLogger.info('Recording HAR from tag', { tag: recordTag });
+        } else if (config.har.recordOnFailure) {
+            await this.networkHelper.recordHar(
+                path.join(config.har.outputDir, `${sanitizeFileName(scenarioName)}-${Date.now()}.har`)
+            );
+        }
+
         // Navigate to base URL if feature has @ui tag
-        const tags = pickle.tags.map(t => t.name);
         if (tags.includes('@ui')) {
             await page.goto(config.baseURL, { waitUntil: 'domcontentloaded' });
             scenarioLogger.info('Navigated to base URL', { url: config.baseURL });
@@ -166,6 +266,19 @@ After(async function(this: CustomWorld, { pickle, result }) {
             const html = await this.page.content();
             this.attach(html, 'text/html');
 
+            // Attach captured network traffic as HAR (a full recording, if any, is attached once the context closes)
+            if (config.network.attachOnFailure && !this.networkHelper?.getHarRecordingPath() && this.networkHelper?.getLogs().length > 0) {
+                await this.networkHelper.flushPendingBodies();
+                this.attach(JSON.stringify(this.networkHelper.exportHar(), null, 2), 'application/json');
+                scenarioLogger.info('Network log attached', { entries: this.networkHelper.getLogs().length });
+            }
+
+            // Capture WebSocket frames and Server-Sent Events
+            const socketFrames = this.networkHelper?.getSocketFrames() || [];
+            if (socketFrames.length > 0) {
+                this.attach(JSON.stringify({ socketFrames }, null, 2), 'application/json');
+            }
+
             // Capture browser logs
             const logs = await this.page.evaluate(() => {
                 return (window as any).testLogs || [];
@@ -202,16 +315,114 @@ After(async function(this: CustomWorld, { pickle, result }) {
             }
         }
 
+        // Report which fixture mocks were hit and which were never used
+        const mockUsage = this.networkHelper?.getMockUsage() || [];
+        if (mockUsage.length > 0) {
+            const unused = mockUsage.filter(usage => usage.hits === 0);
+            if (unused.length > 0) {
+                scenarioLogger.warn('Unused mocks', { mocks: unused.map(usage => `${usage.set}: ${usage.name}`) });
+            }
+            this.attach(JSON.stringify({ mocks: mockUsage }, null, 2), 'application/json');
+        }
+
+        // Attach injected chaos faults so failures can be traced to them
+        const chaosEvents = this.networkHelper?.getChaosEvents() || [];
+        if (chaosEvents.length > 0) {
+            this.attach(JSON.stringify({ chaos: chaosEvents }, null, 2), 'application/json');
+        }
+
+        // Attach which visual baseline each comparison used
+        if (this.visualTesting && this.visualTesting.getResults().length > 0) {
+            this.attach(JSON.stringify(this.visualTesting.getBaselineReport(), null, 2), 'application/json');
+        }
+
         // Close page and context
         await this.cleanup();
         await this.page.context().close();
         scenarioLogger.info('Browser context closed');
 
+        // The HAR is only written once the context has closed
+        const harPath = this.networkHelper?.getHarRecordingPath();
+        if (harPath && fs.existsSync(harPath)) {
+            const isFixture = path.resolve(harPath).startsWith(path.resolve(config.har.dir));
+
+            if (status === Status.FAILED) {
+                this.attach(fs.readFileSync(harPath, 'utf-8'), 'application/json');
+                scenarioLogger.info('HAR attached', { path: harPath });
+            } else if (!isFixture) {
+                fs.unlinkSync(harPath);
+            }
+        }
+
     } catch (error) {
         scenarioLogger.error('Error during cleanup', { error });
     }
 });
 
+/**
+ * Delete test data the scenario created, newest first, whether or not it passed.
+ * Registered after the cleanup hook so it runs while the API client is still open.
+ */
+After(async function(this: CustomWorld, { result }) {
+    if (!this.cleanups || this.cleanups.size === 0) {
+        return;
+    }
+
+    if (config.testData.keep) {
+        scenarioLogger.warn('Keeping test data (TEST_DATA_KEEP=true)', { pending: this.cleanups.getPending() });
+        this.cleanups.clear();
+        return;
+    }
+
+    const failures = await this.cleanups.runAll();
+    if (failures.length === 0) {
+        scenarioLogger.info('Test data cleaned up');
+        return;
+    }
+
+    const message = formatCleanupFailures(failures);
+    scenarioLogger.error(message);
+    this.attach(JSON.stringify({ cleanupFailures: failures }, null, 2), 'application/json');
+
+    // A failed scenario keeps its own error; only a passing one is failed by leftover data
+    if (result?.status !== Status.FAILED) {
+        throw new CleanupError(message, failures);
+    }
+});
+
+/**
+ * Check captured XHR/fetch traffic against the OpenAPI contract.
+ * Registered after the cleanup hook so it runs first, while the page is still open.
+ */
+After(async function(this: CustomWorld) {
+    if (!contract || !config.api.contractUi || !this.networkHelper) {
+        return;
+    }
+
+    await this.networkHelper.flushPendingBodies();
+
+    const checks = this.networkHelper.getLogs()
+        .filter(log => (log.resourceType === 'xhr' || log.resourceType === 'fetch') && log.status !== undefined)
+        .filter(log => contract!.coversUrl(log.url))
+        .map(log => contract!.check({
+            method: log.method,
+            url: log.url,
+            status: log.status!,
+            requestHeaders: log.requestHeaders,
+            responseHeaders: log.responseHeaders,
+            body: log.responseBody
+        }, 'ui'));
+
+    const failed = checks.filter(check => check.violations.length > 0);
+    if (failed.length > 0) {
+        this.attach(JSON.stringify({ contractViolations: failed }, null, 2), 'application/json');
+
+        if (config.api.contractAction === 'fail') {
+            throw new Error(failed.map(formatCheck).join('\n'));
+        }
+    }
+});
+
 /**
  * Close browser after all tests
  */
@@ -221,6 +432,19 @@ AfterAll(async function() {
             await browser.close();
             logger.info('Browser closed');
         }
+
+        if (mockServer) {
+            await mockServer.stop();
+        }
+
+        contract?.saveResults();
+
+        // Build the review page when visual changes are waiting for approval
+        const visualReview = new VisualReview();
+        if (visualReview.getPendingEntries().length > 0) {
+            const reportPath = visualReview.generateReport();
+            logger.warn('Visual changes pending review', { report: reportPath });
+        }
         
         logger.info('='.repeat(60));
         logger.info('Test suite execution completed');
@@ -5,10 +5,17 @@ import { LoginPage } from '../pages/login.page';
 import { ProductsPage } from '../pages/products.page';
 import { CartPage } from '../pages/cart.page';
 import { ScenarioLogger } from '../../src/utils/logger';
-import { ApiClient } from '../../src/api/api-client';
+import { ApiClient, StorageState } from '../../src/api/api-client';
+import { config } from '../../config/test.config';
+import { OpenApiContract } from '../../src/api/openapi-contract';
+import { MockApiServer } from '../../src/api/mock-server';
+import { ScenarioVariables } from '../../src/utils/scenario-variables';
+import { CleanupRegistry } from '../../src/utils/cleanup-registry';
+import { ApiDataFactory } from '../data/api-data-factory';
 import { NetworkHelper } from '../../src/web/network-helper';
 import { VisualTesting } from '../../src/visual/visual-testing';
 import { PerformanceHelper } from '../../src/performance/performance-helper';
+import { Throttler } from '../../src/performance/throttler';
 import { AccessibilityHelper } from '@/accessibility/accessibility-helper';
 import { MobileHelper } from '@/mobile/mobile-helper';
 
@@ -24,8 +31,14 @@ export interface TestWorld extends CucumberWorld {
     networkHelper: NetworkHelper;
     visualTesting: VisualTesting;
     performanceHelper: PerformanceHelper;
+    throttler: Throttler;
     accessibilityHelper: AccessibilityHelper;
     mobileHelper: MobileHelper;
+    variables: ScenarioVariables;
+    cleanups: CleanupRegistry;
+    testData: ApiDataFactory;
+    mockServer?: MockApiServer;
+    contract?: OpenApiContract;
 }
 
 export class CustomWorld extends CucumberWorld implements TestWorld {
@@ -40,29 +53,63 @@ export class CustomWorld extends CucumberWorld implements TestWorld {
     public networkHelper!: NetworkHelper;
     public visualTesting!: VisualTesting;
     public performanceHelper!: PerformanceHelper;
+    public throttler!: Throttler;
     public accessibilityHelper!: AccessibilityHelper;
     public mobileHelper!: MobileHelper;
+    public variables!: ScenarioVariables;
+    public cleanups!: CleanupRegistry;
+    public testData!: ApiDataFactory;
+    public mockServer?: MockApiServer;
+    public contract?: OpenApiContract;
 
     constructor(options: IWorldOptions) {
         super(options);
     }
 
-    async initialize(page: Page, scenarioLogger: ScenarioLogger): Promise<void> {
+    async initialize(
+        page: Page,
+        scenarioLogger: ScenarioLogger,
+        options?: { apiBaseURL?: string; contract?: OpenApiContract; storageState?: string | StorageState; mockServer?: MockApiServer }
+    ): Promise<void> {
         this.page = page;
+        this.mockServer = options?.mockServer;
+        this.contract = options?.contract;
         this.scenarioLogger = scenarioLogger;
         this.webActions = new WebActions(this.page);
+        this.variables = new ScenarioVariables();
 
         // Initialize page objects with page and actions
         this.loginPage = new LoginPage(this.page, this.webActions);
         this.productsPage = new ProductsPage(this.page, this.webActions);
         this.cartPage = new CartPage(this.page, this.webActions);
 
-        // Initialize API client
-        this.apiClient = new ApiClient();
+        // Initialize API client; sharing the page's context gives API and UI one cookie jar
+        this.apiClient = new ApiClient({
+            baseURL: options?.apiBaseURL,
+            contract: options?.contract,
+            browserContext: config.auth.shareBrowserSession ? this.page.context() : undefined,
+            storageState: options?.storageState
+        });
         await this.apiClient.init();
 
+        // Data created through the API is deleted by the teardown hook
+        this.cleanups = new CleanupRegistry();
+        this.testData = new ApiDataFactory(this.apiClient, this.cleanups);
+
         // Initialize network helper
         this.networkHelper = new NetworkHelper(this.page);
+
+        // Initialize visual testing helper
+        this.visualTesting = new VisualTesting(this.page);
+
+        // Initialize performance helper
+        this.performanceHelper = new PerformanceHelper(this.page);
+
+        // Initialize network/CPU throttler
+        this.throttler = new Throttler(this.page);
+
+        // Initialize accessibility helper
+        this.accessibilityHelper = new AccessibilityHelper(this.page);
     }
 
     async cleanup(): Promise<void> {